@@ -1,18 +1,43 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom'
+import { lazy, Suspense } from 'react'
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
+import { Loader2 } from 'lucide-react'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
-import Home from './pages/Home'
-import NotFound from './pages/NotFound'
+import { DASHBOARD_PATH, SETTINGS_PATH } from '@/lib/routes'
+
+// Home is the layout for every workspace route, so moving between them
+// keeps its state; each view is loaded only when its route is first shown
+const Home = lazy(() => import('./pages/Home'))
+const DashboardView = lazy(() => import('./pages/DashboardView'))
+const ChatView = lazy(() => import('./pages/ChatView'))
+const SettingsView = lazy(() => import('./pages/SettingsView'))
+const NotFound = lazy(() => import('./pages/NotFound'))
+
+function PageLoader() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Loader2 className="h-6 w-6 text-gray-400 animate-spin" />
+    </div>
+  )
+}
 
 export default function App() {
   return (
     <BrowserRouter>
       <ErrorBoundary>
         <AgentInterceptorProvider>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <Suspense fallback={<PageLoader />}>
+            <Routes>
+              <Route path="/" element={<Navigate to={DASHBOARD_PATH} replace />} />
+              <Route element={<Home />}>
+                <Route path={DASHBOARD_PATH} element={<DashboardView />} />
+                <Route path="/activity/:entryId" element={<DashboardView />} />
+                <Route path="/chat/:threadId?" element={<ChatView />} />
+                <Route path={SETTINGS_PATH} element={<SettingsView />} />
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </Suspense>
         </AgentInterceptorProvider>
         <GlobalErrorModal />
       </ErrorBoundary>
@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Check, ChevronDown, Inbox, Plus, Trash2 } from 'lucide-react'
+import { DEFAULT_ACCOUNT_ID, getAccountDisplayName, getAccountEmailError } from '@/lib/accounts'
+import type { GmailAccount } from '@/types'
+
+interface AccountSwitcherProps {
+  accounts: GmailAccount[]
+  activeAccount: GmailAccount
+  /** Switching is blocked while a request for the current account runs */
+  busy: boolean
+  onSwitch: (accountId: string) => void
+  onAdd: (label: string, email: string) => void
+  onRemove: (accountId: string) => void
+}
+
+export function AccountSwitcher({
+  accounts,
+  activeAccount,
+  busy,
+  onSwitch,
+  onAdd,
+  onRemove,
+}: AccountSwitcherProps) {
+  const [adding, setAdding] = useState(false)
+  const [removing, setRemoving] = useState(false)
+  const [label, setLabel] = useState('')
+  const [email, setEmail] = useState('')
+  const [submitted, setSubmitted] = useState(false)
+
+  const emailError = getAccountEmailError(email, accounts)
+
+  const openAddDialog = () => {
+    setLabel('')
+    setEmail('')
+    setSubmitted(false)
+    setAdding(true)
+  }
+
+  const submit = () => {
+    setSubmitted(true)
+    if (emailError) return
+    onAdd(label, email)
+    setAdding(false)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy} title={busy ? 'Wait for the current request to finish' : undefined}>
+            <Inbox className="h-4 w-4 mr-2" />
+            <span className="max-w-[180px] truncate">{getAccountDisplayName(activeAccount)}</span>
+            <ChevronDown className="h-4 w-4 ml-1 text-gray-500" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Mailboxes</DropdownMenuLabel>
+          {accounts.map(account => (
+            <DropdownMenuItem key={account.id} onSelect={() => onSwitch(account.id)}>
+              <Check className={`h-4 w-4 mr-2 ${account.id === activeAccount.id ? '' : 'invisible'}`} />
+              <div className="min-w-0">
+                <p className="text-sm truncate">{getAccountDisplayName(account)}</p>
+                {account.email && account.email !== account.label && (
+                  <p className="text-xs text-gray-500 truncate">{account.email}</p>
+                )}
+              </div>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openAddDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add mailbox
+          </DropdownMenuItem>
+          {activeAccount.id !== DEFAULT_ACCOUNT_ID && (
+            <DropdownMenuItem className="text-red-600" onSelect={() => setRemoving(true)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Remove this mailbox
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={adding} onOpenChange={setAdding}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add mailbox</DialogTitle>
+            <DialogDescription>
+              Each mailbox keeps its own settings, schedule, activity history and conversations.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              submit()
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="account-email">Gmail address</Label>
+              <Input
+                id="account-email"
+                type="email"
+                placeholder="team@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                aria-invalid={submitted && !!emailError}
+                autoFocus
+              />
+              {submitted && emailError && <p className="text-xs text-red-600">{emailError}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-label">Name (optional)</Label>
+              <Input
+                id="account-label"
+                placeholder="Support inbox"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setAdding(false)}>Cancel</Button>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700">Add mailbox</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={removing} onOpenChange={setRemoving}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {getAccountDisplayName(activeAccount)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its settings, schedule and conversations are deleted from this browser. Its activity history is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => onRemove(activeAccount.id)}
+            >
+              Remove mailbox
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
+
+export default AccountSwitcher
@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { AlertCircle, CheckCircle, Download, Loader2, RotateCcw, Search, X, XCircle } from 'lucide-react'
+import {
+  DEFAULT_ACTIVITY_FILTERS,
+  filterActivity,
+  hasActiveFilters,
+  toActivityCsv,
+  toActivityJson,
+  type ActivityFilters,
+} from '@/lib/activity-history'
+import { downloadTextFile } from '@/lib/download'
+import { formatDate, formatTime } from '@/lib/format'
+import { canRestore, getRestorableIds, getTrashExpiry, isWithinTrashWindow } from '@/lib/restore'
+import type { ActivityLog, ActivitySource } from '@/types'
+
+interface ActivityHistoryProps {
+  entries: ActivityLog[]
+  loading: boolean
+  error: string | null
+  restoringEntryId: string | null
+  onRestore: (entry: ActivityLog) => void
+  /** Entry whose details are open, e.g. from an /activity/:entryId link */
+  openEntryId: string | null
+  onOpenEntry: (entryId: string | null) => void
+}
+
+const SOURCE_LABELS: Record<ActivitySource, string> = {
+  chat: 'Chat',
+  scheduled: 'Scheduled',
+  manual: 'Manual run',
+  test: 'Test run',
+}
+
+function StatusIcon({ status }: { status: ActivityLog['status'] }) {
+  if (status === 'success') return <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+  if (status === 'cancelled') return <XCircle className="h-5 w-5 text-gray-400 mt-0.5" />
+  return <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+}
+
+function describeOutcome(entry: ActivityLog): string {
+  if (entry.status === 'success') return `${entry.emailsDeleted} emails deleted`
+  if (entry.status === 'cancelled') return 'Cancelled'
+  return entry.errors?.[0] ? `Failed: ${entry.errors[0]}` : 'Failed'
+}
+
+function DetailSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-gray-900">{title}</p>
+      {children}
+    </div>
+  )
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <pre className="text-xs bg-gray-50 border rounded-md p-2 overflow-x-auto max-h-60 whitespace-pre-wrap break-all">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  )
+}
+
+function RestoreSection({
+  entry,
+  restoring,
+  onRestore,
+}: {
+  entry: ActivityLog
+  restoring: boolean
+  onRestore: () => void
+}) {
+  const results = entry.restore?.results || []
+  const restoredCount = results.filter(result => result.status === 'restored').length
+  const remaining = getRestorableIds(entry).length
+  const expiry = getTrashExpiry(entry)
+
+  return (
+    <DetailSection title="Restore">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">
+          {isWithinTrashWindow(entry)
+            ? `Deleted emails stay in Trash until ${formatDate(expiry.toISOString())}.`
+            : 'The trash window has passed; these emails can no longer be restored.'
+          }
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onRestore}
+          disabled={restoring || !canRestore(entry)}
+        >
+          {restoring ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RotateCcw className="h-4 w-4 mr-2" />
+          )}
+          {results.length > 0 && remaining > 0 ? `Retry ${remaining}` : 'Restore'}
+        </Button>
+      </div>
+      {entry.restore && (
+        <div className="space-y-1 pt-1">
+          <p className="text-xs text-gray-600">
+            {restoredCount} of {results.length} restored · last attempt {formatDate(entry.restore.timestamp)} at {formatTime(entry.restore.timestamp)}
+          </p>
+          <ul className="space-y-1">
+            {results.map(result => (
+              <li key={result.message_id} className="flex items-center gap-2 text-xs">
+                {result.status === 'restored' ? (
+                  <CheckCircle className="h-3 w-3 text-green-600 shrink-0" />
+                ) : (
+                  <AlertCircle className="h-3 w-3 text-red-600 shrink-0" />
+                )}
+                <span className="font-mono text-gray-700">{result.message_id}</span>
+                {result.error && <span className="text-red-700 truncate">{result.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </DetailSection>
+  )
+}
+
+function ActivityEntryDialog({
+  entry,
+  restoring,
+  onRestore,
+  onClose,
+}: {
+  entry: ActivityLog | null
+  restoring: boolean
+  onRestore: (entry: ActivityLog) => void
+  onClose: () => void
+}) {
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="max-w-2xl">
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{entry.action}</DialogTitle>
+              <DialogDescription>
+                {formatDate(entry.timestamp)} at {formatTime(entry.timestamp)}
+                {entry.source && ` · ${SOURCE_LABELS[entry.source]}`}
+                {` · ${describeOutcome(entry)}`}
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[60vh] pr-4">
+              <div className="space-y-4">
+                {entry.errors && entry.errors.length > 0 && (
+                  <DetailSection title="Errors">
+                    <ul className="space-y-1">
+                      {entry.errors.map((error, index) => (
+                        <li key={index} className="text-sm text-red-700">{error}</li>
+                      ))}
+                    </ul>
+                  </DetailSection>
+                )}
+                {entry.criteria && (
+                  <DetailSection title="Criteria">
+                    <JsonBlock value={entry.criteria} />
+                  </DetailSection>
+                )}
+                {entry.deletedIds && entry.deletedIds.length > 0 && (
+                  <>
+                    <DetailSection title={`Deleted message IDs (${entry.deletedIds.length})`}>
+                      <p className="text-xs text-gray-600 font-mono break-all">{entry.deletedIds.join(', ')}</p>
+                    </DetailSection>
+                    <RestoreSection entry={entry} restoring={restoring} onRestore={() => onRestore(entry)} />
+                  </>
+                )}
+                {entry.response !== undefined && (
+                  <DetailSection title="Agent response">
+                    <JsonBlock value={entry.response} />
+                  </DetailSection>
+                )}
+                {!entry.criteria && !entry.response && !entry.errors?.length && (
+                  <p className="text-sm text-gray-500">No details were recorded for this entry.</p>
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ActivityHistory({
+  entries,
+  loading,
+  error,
+  restoringEntryId,
+  onRestore,
+  openEntryId,
+  onOpenEntry,
+}: ActivityHistoryProps) {
+  const [filters, setFilters] = useState<ActivityFilters>(DEFAULT_ACTIVITY_FILTERS)
+  // Looked up by id so the dialog shows restore results as they arrive
+  const openEntry = entries.find(entry => entry.id === openEntryId) || null
+
+  const filtered = useMemo(() => filterActivity(entries, filters), [entries, filters])
+  const filtering = hasActiveFilters(filters)
+
+  const updateFilter = <K extends keyof ActivityFilters>(key: K, value: ActivityFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const exportHistory = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10)
+    if (format === 'csv') {
+      downloadTextFile(`gmail-cleaner-activity-${date}.csv`, toActivityCsv(filtered), 'text/csv')
+    } else {
+      downloadTextFile(`gmail-cleaner-activity-${date}.json`, toActivityJson(filtered), 'application/json')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Activity History</CardTitle>
+          <CardDescription>
+            {filtering
+              ? `Showing ${filtered.length} of ${entries.length} entries`
+              : 'Your cleanup history'
+            }
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => exportHistory('csv')} disabled={filtered.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => exportHistory('json')} disabled={filtered.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            JSON
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="relative">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            className="pl-9"
+            value={filters.query}
+            placeholder="Search actions, errors, criteria or message IDs"
+            onChange={(e) => updateFilter('query', e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={filters.status}
+            onValueChange={(value) => updateFilter('status', value as ActivityFilters['status'])}
+          >
+            <SelectTrigger className="w-[130px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="success">Success</SelectItem>
+              <SelectItem value="error">Failed</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.source}
+            onValueChange={(value) => updateFilter('source', value as ActivityFilters['source'])}
+          >
+            <SelectTrigger className="w-[130px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {(Object.keys(SOURCE_LABELS) as ActivitySource[]).map(source => (
+                <SelectItem key={source} value={source}>{SOURCE_LABELS[source]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            className="w-[150px] h-8"
+            value={filters.from}
+            max={filters.to || undefined}
+            aria-label="From date"
+            onChange={(e) => updateFilter('from', e.target.value)}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <Input
+            type="date"
+            className="w-[150px] h-8"
+            value={filters.to}
+            min={filters.from || undefined}
+            aria-label="To date"
+            onChange={(e) => updateFilter('to', e.target.value)}
+          />
+          {filtering && (
+            <Button variant="ghost" size="sm" onClick={() => setFilters(DEFAULT_ACTIVITY_FILTERS)}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-amber-600">{error}</p>}
+
+        <ScrollArea className="h-[300px] pr-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {entries.length === 0 ? 'No activity yet' : 'No activity matches these filters'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {filtered.map(entry => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  className="w-full text-left flex items-start gap-3 p-3 rounded-lg border bg-gray-50 hover:bg-gray-100 transition-colors"
+                  onClick={() => onOpenEntry(entry.id)}
+                >
+                  <StatusIcon status={entry.status} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 truncate">{entry.action}</p>
+                      {entry.source && (
+                        <Badge variant="secondary" className="text-xs">{SOURCE_LABELS[entry.source]}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-0.5 truncate">{describeOutcome(entry)}</p>
+                  </div>
+                  <div className="text-xs text-gray-500 whitespace-nowrap text-right">
+                    <p>{formatDate(entry.timestamp)}</p>
+                    <p>{formatTime(entry.timestamp)}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+
+      <ActivityEntryDialog
+        entry={openEntry}
+        restoring={!!openEntry && restoringEntryId === openEntry.id}
+        onRestore={onRestore}
+        onClose={() => onOpenEntry(null)}
+      />
+    </Card>
+  )
+}
+
+export default ActivityHistory
@@ -0,0 +1,81 @@
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { HEALTH_STATUS_LABELS, type AgentHealth, type AgentHealthStatus } from '@/lib/agent-health'
+import { formatTime } from '@/lib/format'
+
+interface AgentHealthIndicatorProps {
+  health: AgentHealth[]
+  checking: boolean
+  onCheckNow: () => void
+}
+
+const STATUS_STYLES: Record<AgentHealthStatus, { badge: string; dot: string }> = {
+  unknown: { badge: 'bg-gray-100 text-gray-700', dot: 'bg-gray-400' },
+  healthy: { badge: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
+  degraded: { badge: 'bg-amber-100 text-amber-800', dot: 'bg-amber-500' },
+  down: { badge: 'bg-red-100 text-red-800', dot: 'bg-red-500' },
+  unconfigured: { badge: 'bg-red-100 text-red-800', dot: 'bg-red-500' },
+}
+
+export function AgentHealthIndicator({ health, checking, onCheckNow }: AgentHealthIndicatorProps) {
+  return (
+    <div className="flex items-center gap-1.5">
+      {health.map(agent => {
+        const styles = STATUS_STYLES[agent.status]
+        return (
+          <Popover key={agent.agentId}>
+            <PopoverTrigger asChild>
+              <button type="button" aria-label={`${agent.name}: ${HEALTH_STATUS_LABELS[agent.status]}`}>
+                <Badge variant="secondary" className={`${styles.badge} cursor-pointer gap-1.5`}>
+                  <span className={`h-2 w-2 rounded-full ${styles.dot} ${agent.status === 'unknown' ? 'animate-pulse' : ''}`} />
+                  <span className="max-w-[140px] truncate">{agent.name}</span>
+                </Badge>
+              </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-gray-900">{agent.name}</p>
+                <Badge variant="secondary" className={styles.badge}>{HEALTH_STATUS_LABELS[agent.status]}</Badge>
+              </div>
+
+              {agent.reason && (
+                <p className={`text-sm ${agent.status === 'degraded' ? 'text-amber-700' : 'text-red-700'}`}>{agent.reason}</p>
+              )}
+
+              {agent.toolErrors.length > 1 && (
+                <ul className="list-disc pl-4 space-y-0.5 text-xs text-amber-700">
+                  {agent.toolErrors.slice(1).map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="text-xs text-gray-500 space-y-0.5">
+                <p>
+                  {agent.lastCheckedAt ? `Last checked at ${formatTime(agent.lastCheckedAt)}` : 'Not checked yet'}
+                  {agent.responseTimeMs !== null && ` · ${agent.responseTimeMs} ms`}
+                </p>
+                {agent.toolErrors.length > 0 && (
+                  <p>Tool errors come from the agent's last run and clear after a run without them.</p>
+                )}
+              </div>
+
+              <Button variant="outline" size="sm" className="w-full" onClick={onCheckNow} disabled={checking}>
+                {checking ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Check now
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )
+      })}
+    </div>
+  )
+}
+
+export default AgentHealthIndicator
@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Send, Square, Terminal } from 'lucide-react'
+import {
+  applySuggestion,
+  getQuerySuggestions,
+  isSlashCommand,
+  parseQuery,
+} from '@/lib/query-language'
+
+interface ChatComposerProps {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: () => void
+  loading: boolean
+  /** Cancels the request in flight; shows a Stop button while loading */
+  onStop?: () => void
+  /** Known sender addresses offered for `from:` */
+  senders: string[]
+}
+
+export function ChatComposer({ value, onChange, onSubmit, loading, onStop, senders }: ChatComposerProps) {
+  const [highlighted, setHighlighted] = useState(0)
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null)
+
+  const slashCommand = isSlashCommand(value)
+  const parsed = useMemo(() => (slashCommand ? parseQuery(value) : null), [slashCommand, value])
+  const suggestions = useMemo(
+    () => (dismissedFor === value ? [] : getQuerySuggestions(value, { senders })),
+    [value, senders, dismissedFor]
+  )
+  // Only complain about a token once the user has moved past it
+  const typing = !/\s$/.test(value)
+  const pendingToken = typing ? value.trim().split(/\s+/).pop() : null
+  const errors = parsed
+    ? parsed.errors.filter(error => error.token !== pendingToken && (error.token || !typing))
+    : []
+  const blocked = !!parsed && parsed.errors.length > 0
+
+  const accept = (index: number) => {
+    const suggestion = suggestions[index]
+    if (!suggestion) return
+    onChange(applySuggestion(value, suggestion))
+    setHighlighted(0)
+  }
+
+  return (
+    <div className="space-y-1">
+      {suggestions.length > 0 && (
+        <div className="rounded-md border bg-white shadow-sm py-1" role="listbox" aria-label="Command suggestions">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.label}
+              type="button"
+              role="option"
+              aria-selected={index === highlighted}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-sm ${
+                index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(index)}
+            >
+              <span className="font-mono text-gray-900">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="text-xs text-gray-500 truncate">{suggestion.description}</span>
+              )}
+            </button>
+          ))}
+          <p className="px-3 pt-1 text-[11px] text-gray-400">Tab to complete · Esc to close</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Type your cleanup request, or / for commands..."
+          value={value}
+          className={slashCommand ? 'font-mono' : undefined}
+          aria-invalid={errors.length > 0}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setHighlighted(0)
+          }}
+          onKeyDown={(e) => {
+            if (suggestions.length > 0) {
+              if (e.key === 'ArrowDown') {
+                e.preventDefault()
+                setHighlighted(i => (i + 1) % suggestions.length)
+                return
+              }
+              if (e.key === 'ArrowUp') {
+                e.preventDefault()
+                setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length)
+                return
+              }
+              if (e.key === 'Tab') {
+                e.preventDefault()
+                accept(highlighted)
+                return
+              }
+              if (e.key === 'Escape') {
+                e.preventDefault()
+                setDismissedFor(value)
+                return
+              }
+            }
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              if (!blocked) onSubmit()
+            }
+          }}
+          disabled={loading}
+        />
+        {loading && onStop ? (
+          <Button type="button" variant="outline" onClick={onStop} aria-label="Stop">
+            <Square className="h-4 w-4 mr-2 fill-current" />
+            Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={onSubmit}
+            disabled={loading || !value.trim() || blocked}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+          </Button>
+        )}
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="space-y-0.5">
+          {errors.map((error, index) => (
+            <li key={index} className="text-xs text-red-600">
+              {error.token && <span className="font-mono">{error.token}</span>}
+              {error.token && ': '}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      ) : parsed && !blocked ? (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <Terminal className="h-3 w-3" />
+          Sent as structured criteria: <span className="font-mono">{parsed.gmailQuery}</span>
+        </p>
+      ) : null}
+    </div>
+  )
+}
+
+export default ChatComposer
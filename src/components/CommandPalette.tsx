@@ -0,0 +1,200 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command'
+import { DialogTitle } from '@/components/ui/dialog'
+import {
+  BarChart,
+  CheckSquare,
+  Filter,
+  Keyboard,
+  MessageSquare,
+  RefreshCw,
+  Settings,
+  ToggleLeft,
+  ToggleRight,
+  Trash2,
+} from 'lucide-react'
+import { ShortcutKeys } from '@/components/ShortcutHelpSheet'
+import type { ShortcutActionId, ShortcutBindings } from '@/lib/shortcuts'
+import type { ChatThread, CleanupRule } from '@/types'
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  threads: ChatThread[]
+  activeThreadId: string
+  rules: CleanupRule[]
+  /** A cleanup or dry run is already in progress */
+  cleanupRunning: boolean
+  selectableCount: number
+  selectedCount: number
+  /** Rules can't be toggled over unsaved edits in the settings form */
+  settingsDirty: boolean
+  onAction: (actionId: ShortcutActionId) => void
+  onOpenThread: (threadId: string) => void
+  onToggleRule: (ruleId: string) => void
+}
+
+const RECENT_THREAD_LIMIT = 5
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  bindings,
+  threads,
+  activeThreadId,
+  rules,
+  cleanupRunning,
+  selectableCount,
+  selectedCount,
+  settingsDirty,
+  onAction,
+  onOpenThread,
+  onToggleRule,
+}: CommandPaletteProps) {
+  const recentThreads = [...threads]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, RECENT_THREAD_LIMIT)
+
+  // Close first so the palette is gone before the command moves focus
+  const run = (command: () => void) => {
+    onOpenChange(false)
+    command()
+  }
+
+  const shortcut = (actionId: ShortcutActionId) => {
+    const binding = bindings[actionId]
+    return binding ? (
+      <CommandShortcut>
+        <ShortcutKeys binding={binding} />
+      </CommandShortcut>
+    ) : null
+  }
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <CommandInput placeholder="Type a command or search…" />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+
+        <CommandGroup heading="Cleanup">
+          <CommandItem disabled={cleanupRunning} onSelect={() => run(() => onAction('runCleanup'))}>
+            <RefreshCw />
+            Run cleanup now
+            {shortcut('runCleanup')}
+          </CommandItem>
+          <CommandItem
+            disabled={cleanupRunning}
+            keywords={['test', 'preview']}
+            onSelect={() => run(() => onAction('dryRun'))}
+          >
+            <Filter />
+            Start a dry run
+            {shortcut('dryRun')}
+          </CommandItem>
+          <CommandItem
+            disabled={selectableCount === 0}
+            onSelect={() => run(() => onAction('selectAll'))}
+          >
+            <CheckSquare />
+            {selectedCount > 0 && selectedCount === selectableCount ? 'Deselect all previews' : 'Select all previews'}
+            {shortcut('selectAll')}
+          </CommandItem>
+          <CommandItem
+            disabled={selectedCount === 0}
+            onSelect={() => run(() => onAction('deleteSelection'))}
+          >
+            <Trash2 />
+            {selectedCount > 0 ? `Delete ${selectedCount} selected emails` : 'Delete selected emails'}
+            {shortcut('deleteSelection')}
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Go to">
+          <CommandItem onSelect={() => run(() => onAction('goDashboard'))}>
+            <BarChart />
+            Dashboard
+            {shortcut('goDashboard')}
+          </CommandItem>
+          <CommandItem onSelect={() => run(() => onAction('goChat'))}>
+            <MessageSquare />
+            Chat
+            {shortcut('goChat')}
+          </CommandItem>
+          <CommandItem onSelect={() => run(() => onAction('goSettings'))}>
+            <Settings />
+            Settings
+            {shortcut('goSettings')}
+          </CommandItem>
+        </CommandGroup>
+
+        {recentThreads.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Recent conversations">
+              {recentThreads.map(thread => (
+                <CommandItem
+                  key={thread.id}
+                  value={`thread ${thread.id}`}
+                  keywords={[thread.title, 'conversation', 'thread']}
+                  onSelect={() => run(() => onOpenThread(thread.id))}
+                >
+                  <MessageSquare />
+                  <span className="truncate">{thread.title}</span>
+                  {thread.id === activeThreadId && (
+                    <span className="ml-auto text-xs text-gray-400">Current</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {rules.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading={settingsDirty ? 'Rules (save or discard your settings edits first)' : 'Rules'}>
+              {rules.map(rule => (
+                <CommandItem
+                  key={rule.id}
+                  value={`rule ${rule.id}`}
+                  keywords={[rule.name || 'Untitled rule', 'rule', 'toggle', rule.enabled ? 'disable' : 'enable']}
+                  disabled={settingsDirty}
+                  onSelect={() => run(() => onToggleRule(rule.id))}
+                >
+                  {rule.enabled ? <ToggleRight className="text-blue-600" /> : <ToggleLeft />}
+                  <span className="truncate">
+                    {rule.enabled ? 'Disable' : 'Enable'} rule: {rule.name || 'Untitled rule'}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Help">
+          <CommandItem onSelect={() => run(() => onAction('showShortcuts'))}>
+            <Keyboard />
+            Keyboard shortcuts
+            {shortcut('showShortcuts')}
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  )
+}
+
+export default CommandPalette
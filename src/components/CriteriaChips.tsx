@@ -0,0 +1,205 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Filter, Plus, X } from 'lucide-react'
+import { GMAIL_CATEGORIES } from '@/lib/cleanup-rules'
+import type { CriteriaIdentified } from '@/types'
+
+interface CriteriaChipsProps {
+  criteria: CriteriaIdentified
+  /** Disables editing while the cleaner bot is busy */
+  disabled: boolean
+  /** Called with the edited criteria; the preview is re-queried from it */
+  onChange: (criteria: CriteriaIdentified) => void
+}
+
+type ChipField = 'sender' | 'date_range' | 'category' | 'keyword'
+
+interface EditingChip {
+  field: ChipField
+  /** Keyword position, or -1 for a new keyword */
+  index?: number
+}
+
+const FIELD_LABELS: Record<ChipField, string> = {
+  sender: 'From',
+  date_range: 'Date',
+  category: 'Category',
+  keyword: 'Keyword',
+}
+
+const FIELD_PLACEHOLDERS: Record<ChipField, string> = {
+  sender: 'news@shop.com',
+  date_range: 'older_than:30d',
+  category: '',
+  keyword: 'unsubscribe',
+}
+
+function hasValue(value: string | null | undefined): boolean {
+  return !!value && value.trim() !== '' && value !== 'all'
+}
+
+function withField(criteria: CriteriaIdentified, field: ChipField, value: string, index?: number): CriteriaIdentified {
+  const trimmed = value.trim()
+  switch (field) {
+    case 'sender':
+      return { ...criteria, sender: trimmed || null }
+    case 'date_range':
+      return { ...criteria, date_range: trimmed || 'all' }
+    case 'category':
+      return { ...criteria, category: trimmed }
+    case 'keyword': {
+      const keywords = [...(criteria.keywords || [])]
+      if (index === undefined || index < 0) {
+        if (trimmed && !keywords.includes(trimmed)) keywords.push(trimmed)
+      } else if (trimmed) {
+        keywords[index] = trimmed
+      } else {
+        keywords.splice(index, 1)
+      }
+      return { ...criteria, keywords }
+    }
+  }
+}
+
+export function CriteriaChips({ criteria, disabled, onChange }: CriteriaChipsProps) {
+  const [editing, setEditing] = useState<EditingChip | null>(null)
+  const [draft, setDraft] = useState('')
+
+  const keywords = criteria.keywords || []
+  const chips: { field: ChipField; value: string; index?: number }[] = [
+    ...(hasValue(criteria.sender) ? [{ field: 'sender' as const, value: criteria.sender }] : []),
+    ...(hasValue(criteria.date_range) ? [{ field: 'date_range' as const, value: criteria.date_range }] : []),
+    ...(hasValue(criteria.category) ? [{ field: 'category' as const, value: criteria.category }] : []),
+    ...keywords.map((value, index) => ({ field: 'keyword' as const, value, index })),
+  ]
+  const addable = (['sender', 'date_range', 'category'] as ChipField[])
+    .filter(field => !chips.some(chip => chip.field === field))
+
+  const isEditing = (field: ChipField, index?: number) =>
+    editing?.field === field && editing.index === index
+
+  const startEditing = (field: ChipField, value: string, index?: number) => {
+    if (disabled) return
+    setEditing({ field, index })
+    setDraft(value)
+  }
+
+  const commit = (value: string = draft) => {
+    if (!editing) return
+    const current = chips.find(chip => chip.field === editing.field && chip.index === editing.index)?.value || ''
+    setEditing(null)
+    if (value.trim() === current) return
+    onChange(withField(criteria, editing.field, value, editing.index))
+  }
+
+  const remove = (field: ChipField, index?: number) => {
+    setEditing(null)
+    onChange(withField(criteria, field, '', index))
+  }
+
+  const renderEditor = (field: ChipField) => field === 'category' ? (
+    <Select
+      defaultOpen
+      value={draft || undefined}
+      onValueChange={(value) => commit(value)}
+      onOpenChange={(open) => { if (!open) setEditing(null) }}
+    >
+      <SelectTrigger className="h-7 w-[140px] text-xs">
+        <SelectValue placeholder="Category" />
+      </SelectTrigger>
+      <SelectContent>
+        {GMAIL_CATEGORIES.map(category => (
+          <SelectItem key={category} value={category}>{category}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  ) : (
+    <Input
+      autoFocus
+      value={draft}
+      placeholder={FIELD_PLACEHOLDERS[field]}
+      aria-label={FIELD_LABELS[field]}
+      className="h-7 w-[180px] text-xs"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => commit()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          commit()
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault()
+          setEditing(null)
+        }
+      }}
+    />
+  )
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <Filter className="h-3.5 w-3.5 text-gray-400" />
+      {chips.map(chip => isEditing(chip.field, chip.index) ? (
+        <span key={`${chip.field}-${chip.index ?? ''}`}>{renderEditor(chip.field)}</span>
+      ) : (
+        <Badge
+          key={`${chip.field}-${chip.index ?? ''}`}
+          variant="secondary"
+          className="gap-1 pr-1 text-xs font-normal"
+        >
+          <button
+            type="button"
+            className="hover:underline disabled:no-underline"
+            onClick={() => startEditing(chip.field, chip.value, chip.index)}
+            disabled={disabled}
+            title="Click to edit"
+          >
+            <span className="text-gray-500">{FIELD_LABELS[chip.field]}:</span> {chip.value}
+          </button>
+          <button
+            type="button"
+            className="rounded-sm p-0.5 hover:bg-gray-200"
+            onClick={() => remove(chip.field, chip.index)}
+            disabled={disabled}
+            aria-label={`Remove ${FIELD_LABELS[chip.field].toLowerCase()} filter`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
+      {editing && !chips.some(chip => chip.field === editing.field && chip.index === editing.index) &&
+        renderEditor(editing.field)
+      }
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add filter
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+          {addable.map(field => (
+            <DropdownMenuItem key={field} onSelect={() => startEditing(field, '')}>
+              {FIELD_LABELS[field]}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem onSelect={() => startEditing('keyword', '', -1)}>
+            {FIELD_LABELS.keyword}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
+
+export default CriteriaChips
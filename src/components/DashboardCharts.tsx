@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import {
+  STATS_RANGES,
+  filterByRange,
+  getBreakdown,
+  getFailureRate,
+  getSourceSplit,
+  getTimeSeries,
+  type StatsGranularity,
+  type StatsRange,
+} from '@/lib/activity-stats'
+import type { ActivityLog } from '@/types'
+
+interface DashboardChartsProps {
+  entries: ActivityLog[]
+}
+
+const deletionsConfig = {
+  chat: { label: 'Chat', color: '#2563eb' },
+  scheduled: { label: 'Scheduled', color: '#9333ea' },
+} satisfies ChartConfig
+
+const breakdownConfig = {
+  deleted: { label: 'Deleted', color: '#2563eb' },
+} satisfies ChartConfig
+
+const failureConfig = {
+  failureRate: { label: 'Failure rate', color: '#dc2626' },
+} satisfies ChartConfig
+
+function EmptyChart({ message }: { message: string }) {
+  return (
+    <div className="flex aspect-video items-center justify-center">
+      <p className="text-sm text-gray-500">{message}</p>
+    </div>
+  )
+}
+
+function ChartCard({
+  title,
+  description,
+  children,
+}: {
+  title: string
+  description: string
+  children: React.ReactNode
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  )
+}
+
+export function DashboardCharts({ entries }: DashboardChartsProps) {
+  const [range, setRange] = useState<StatsRange>('30d')
+  const [granularity, setGranularity] = useState<StatsGranularity>('day')
+
+  const inRange = useMemo(() => filterByRange(entries, range), [entries, range])
+  const series = useMemo(() => getTimeSeries(inRange, range, granularity), [inRange, range, granularity])
+  const breakdown = useMemo(() => getBreakdown(inRange), [inRange])
+  const split = useMemo(() => getSourceSplit(inRange), [inRange])
+  const failureRate = useMemo(() => getFailureRate(inRange), [inRange])
+
+  const totalDeleted = split.chat + split.scheduled
+  const splitData = [
+    { source: 'chat', deleted: split.chat },
+    { source: 'scheduled', deleted: split.scheduled },
+  ].filter(item => item.deleted > 0)
+  const hasRuns = series.some(bucket => bucket.runs > 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900">Trends</h2>
+        <div className="flex gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as StatsRange)}>
+            <SelectTrigger className="w-[140px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATS_RANGES.map(option => (
+                <SelectItem key={option.range} value={option.range}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as StatsGranularity)}>
+            <SelectTrigger className="w-[110px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Per day</SelectItem>
+              <SelectItem value="week">Per week</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <ChartCard
+          title="Deletions"
+          description={`${totalDeleted} emails deleted ${granularity === 'week' ? 'by week' : 'by day'}`}
+        >
+          {totalDeleted === 0 ? (
+            <EmptyChart message="No deletions in this range" />
+          ) : (
+            <ChartContainer config={deletionsConfig}>
+              <BarChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="chat" stackId="deleted" fill="var(--color-chat)" />
+                <Bar dataKey="scheduled" stackId="deleted" fill="var(--color-scheduled)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+
+        <ChartCard title="By Category or Rule" description="Chat categories and periodic rules">
+          {breakdown.length === 0 ? (
+            <EmptyChart message="No deletions in this range" />
+          ) : (
+            <ChartContainer config={breakdownConfig}>
+              <BarChart data={breakdown} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                <Bar dataKey="deleted" fill="var(--color-deleted)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+
+        <ChartCard
+          title="Chat vs Scheduled"
+          description={totalDeleted > 0
+            ? `${Math.round((split.chat / totalDeleted) * 100)}% of deletions came from chat`
+            : 'Share of deletions by source'
+          }
+        >
+          {splitData.length === 0 ? (
+            <EmptyChart message="No deletions in this range" />
+          ) : (
+            <ChartContainer config={deletionsConfig}>
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="source" hideLabel />} />
+                <Pie data={splitData} dataKey="deleted" nameKey="source" innerRadius="50%">
+                  {splitData.map(item => (
+                    <Cell key={item.source} fill={`var(--color-${item.source})`} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="source" />} />
+              </PieChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+
+        <ChartCard
+          title="Failure Rate"
+          description={failureRate === null
+            ? 'Share of runs that failed'
+            : `${failureRate}% of runs failed in this range`
+          }
+        >
+          {!hasRuns ? (
+            <EmptyChart message="No runs in this range" />
+          ) : (
+            <ChartContainer config={failureConfig}>
+              <LineChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="failureRate"
+                  type="monotone"
+                  stroke="var(--color-failureRate)"
+                  strokeWidth={2}
+                  connectNulls
+                  dot={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+      </div>
+    </div>
+  )
+}
+
+export default DashboardCharts
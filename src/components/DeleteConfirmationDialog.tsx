@@ -0,0 +1,99 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import { countBySender } from '@/lib/confirmation'
+import type { EmailPreview } from '@/types'
+
+interface DeleteConfirmationDialogProps {
+  /** Emails awaiting confirmation; the dialog is open while this is set */
+  emails: EmailPreview[] | null
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function DeleteConfirmationDialog({
+  emails,
+  onConfirm,
+  onCancel,
+}: DeleteConfirmationDialogProps) {
+  const pending = emails || []
+  const senders = countBySender(pending)
+
+  return (
+    <AlertDialog
+      open={emails !== null}
+      onOpenChange={(open) => {
+        if (!open) onCancel()
+      }}
+    >
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Delete {pending.length} {pending.length === 1 ? 'email' : 'emails'}?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Review exactly what will be removed from {senders.length}{' '}
+            {senders.length === 1 ? 'sender' : 'senders'}. Nothing is deleted until you confirm.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-2">By sender</p>
+            <div className="flex flex-wrap gap-2">
+              {senders.map(({ sender, count }) => (
+                <span
+                  key={sender}
+                  className="inline-flex items-center gap-1 rounded-md border bg-gray-50 px-2 py-1 text-xs text-gray-700"
+                >
+                  <span className="truncate max-w-[200px]">{sender}</span>
+                  <span className="font-semibold">{count}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <Separator />
+
+          <ScrollArea className="h-[260px] pr-4">
+            <ul className="space-y-2">
+              {pending.map(email => (
+                <li key={email.id} className="rounded-lg border p-2">
+                  <p className="text-sm font-medium text-gray-900 truncate">{email.subject}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {email.sender} · {email.date}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              // Keep Radix from closing through onOpenChange, which means cancel
+              e.preventDefault()
+              onConfirm()
+            }}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            Delete {pending.length} {pending.length === 1 ? 'email' : 'emails'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default DeleteConfirmationDialog
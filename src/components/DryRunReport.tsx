@@ -0,0 +1,167 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AlertCircle, Loader2, Play, X } from 'lucide-react'
+import { formatDate, formatTime } from '@/lib/format'
+import type { CleanupSettings, PeriodicResponse, RuleResult } from '@/types'
+
+export interface DryRunResult {
+  /** Settings snapshot the dry run was made with */
+  settings: CleanupSettings
+  data: PeriodicResponse
+  /** Agent-level status; 'error' when the agent reported a failed run */
+  status: 'success' | 'error'
+  timestamp: string
+}
+
+interface DryRunReportProps {
+  report: DryRunResult
+  promoting: boolean
+  onPromote: () => void
+  onDismiss: () => void
+}
+
+function formatCriteria(criteria: RuleResult['criteria_applied']): string[] {
+  if (!criteria) return []
+
+  return Object.entries(criteria).map(([key, value]) => {
+    if (key === 'label_ids' && Array.isArray(value)) return `Labels: ${value.join(', ')}`
+    if (key === 'days_older_than') return `Older than ${value} days`
+    return `${key}: ${Array.isArray(value) ? value.join(', ') : JSON.stringify(value)}`
+  })
+}
+
+function getStatusClass(status: string): string {
+  const normalized = (status || '').toLowerCase()
+  if (normalized === 'failed' || normalized === 'error') return 'bg-red-100 text-red-800'
+  if (normalized === 'skipped') return 'bg-gray-100 text-gray-800'
+  return 'bg-green-100 text-green-800'
+}
+
+export function DryRunReport({ report, promoting, onPromote, onDismiss }: DryRunReportProps) {
+  const { data } = report
+  const rules = data.rules_results || []
+  const errors = data.errors || []
+  const failedRules = rules.filter(rule => /^(failed|error)$/i.test(rule.status || ''))
+  const wouldDelete = rules.reduce((sum, rule) => sum + (rule.emails_found || 0), 0)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Dry Run Report</CardTitle>
+          <CardDescription>
+            Test run on {formatDate(report.timestamp)} at {formatTime(report.timestamp)} · nothing was deleted
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} aria-label="Dismiss report">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-4">
+          <div className="p-3 rounded-lg border bg-gray-50">
+            <p className="text-xs text-gray-500">Would delete</p>
+            <p className="text-xl font-bold text-gray-900">{wouldDelete}</p>
+          </div>
+          <div className="p-3 rounded-lg border bg-gray-50">
+            <p className="text-xs text-gray-500">Emails processed</p>
+            <p className="text-xl font-bold text-gray-900">
+              {data.cleanup_summary?.total_emails_processed ?? 0}
+            </p>
+          </div>
+          <div className="p-3 rounded-lg border bg-gray-50">
+            <p className="text-xs text-gray-500">Rules evaluated</p>
+            <p className="text-xl font-bold text-gray-900">{rules.length}</p>
+          </div>
+          <div className="p-3 rounded-lg border bg-gray-50">
+            <p className="text-xs text-gray-500">Failed rules</p>
+            <p className={`text-xl font-bold ${failedRules.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {failedRules.length}
+            </p>
+          </div>
+        </div>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">The agent returned no rule results</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Criteria</TableHead>
+                <TableHead className="text-right">Matched</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => (
+                <TableRow key={`${rule.rule_name}-${index}`}>
+                  <TableCell>
+                    <p className="font-medium text-gray-900">{rule.rule_name}</p>
+                    <p className="text-xs text-gray-500">{rule.rule_type}</p>
+                  </TableCell>
+                  <TableCell>
+                    <ul className="text-xs text-gray-600 space-y-0.5">
+                      {formatCriteria(rule.criteria_applied).map(line => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{rule.emails_found ?? 0}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={getStatusClass(rule.status)}>
+                      {rule.status || 'unknown'}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {errors.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+            <p className="text-sm font-medium text-red-700 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {errors.length} {errors.length === 1 ? 'error' : 'errors'} reported by the agent
+            </p>
+            <ul className="list-disc pl-6 text-sm text-red-600 space-y-0.5">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t">
+          <p className="text-xs text-gray-500">
+            A real run uses the same settings as this dry run.
+          </p>
+          <Button
+            onClick={onPromote}
+            disabled={promoting || report.status === 'error'}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {promoting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Promote to Real Run
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default DryRunReport
@@ -0,0 +1,383 @@
+import { useMemo, useState } from 'react'
+import {
+  flexRender,
+  getCoreRowModel,
+  getExpandedRowModel,
+  getFilteredRowModel,
+  getGroupedRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type Column,
+  type ColumnDef,
+  type ExpandedState,
+  type FilterFn,
+  type GroupingState,
+  type RowSelectionState,
+  type SortingState,
+  type Updater,
+  type VisibilityState,
+} from '@tanstack/react-table'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns,
+  Lock,
+  Search,
+  Users,
+} from 'lucide-react'
+import { describeProtection, extractAddress, getProtectionMatch } from '@/lib/safelist'
+import { formatDate } from '@/lib/format'
+import type { EmailPreview, Safelist } from '@/types'
+
+interface EmailPreviewTableProps {
+  emails: EmailPreview[]
+  /** The page's selection; protected emails are never added to it */
+  selectedIds: Set<string>
+  onSelectionChange: (ids: Set<string>) => void
+  safelist: Safelist
+}
+
+const PAGE_SIZE = 10
+
+const COLUMN_LABELS: Record<string, string> = {
+  sender: 'Sender',
+  subject: 'Subject',
+  date: 'Date',
+  category: 'Category',
+}
+
+function getCategoryColor(category?: string): string {
+  if (!category) return 'bg-gray-100 text-gray-800'
+  const cat = category.toLowerCase()
+  if (cat.includes('promo')) return 'bg-purple-100 text-purple-800'
+  if (cat.includes('social')) return 'bg-blue-100 text-blue-800'
+  if (cat.includes('update')) return 'bg-green-100 text-green-800'
+  return 'bg-gray-100 text-gray-800'
+}
+
+function toTime(date: string): number {
+  const time = new Date(date).getTime()
+  return Number.isNaN(time) ? 0 : time
+}
+
+const matchesText: FilterFn<EmailPreview> = (row, _columnId, value: string) => {
+  const query = value.trim().toLowerCase()
+  if (!query) return true
+  const email = row.original
+  return [email.sender, email.subject, email.snippet, email.category || '']
+    .some(field => field.toLowerCase().includes(query))
+}
+
+function SortHeader({ column, label }: { column: Column<EmailPreview, unknown>; label: string }) {
+  const sorted = column.getIsSorted()
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="-ml-3 h-8"
+      onClick={() => column.toggleSorting(sorted === 'asc')}
+    >
+      {label}
+      {sorted === 'asc' ? (
+        <ArrowUp className="h-3 w-3 ml-1" />
+      ) : sorted === 'desc' ? (
+        <ArrowDown className="h-3 w-3 ml-1" />
+      ) : (
+        <ArrowUpDown className="h-3 w-3 ml-1 text-gray-400" />
+      )}
+    </Button>
+  )
+}
+
+export function EmailPreviewTable({ emails, selectedIds, onSelectionChange, safelist }: EmailPreviewTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'date', desc: true }])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const [grouping, setGrouping] = useState<GroupingState>([])
+  const [expanded, setExpanded] = useState<ExpandedState>(true)
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+
+  const protection = useMemo(() => {
+    const reasons = new Map<string, string>()
+    for (const email of emails) {
+      const match = getProtectionMatch(email, safelist)
+      if (match) reasons.set(email.id, describeProtection(match))
+    }
+    return reasons
+  }, [emails, safelist])
+
+  // Mirror the page's Set so selection survives sorting, paging and grouping
+  const rowSelection = useMemo<RowSelectionState>(
+    () => Object.fromEntries([...selectedIds].map(id => [id, true])),
+    [selectedIds]
+  )
+
+  const handleRowSelectionChange = (updater: Updater<RowSelectionState>) => {
+    const next = typeof updater === 'function' ? updater(rowSelection) : updater
+    const emailIds = new Set(emails.map(e => e.id))
+    // Group rows carry their own ids; only real, unprotected emails are kept
+    onSelectionChange(new Set(
+      Object.keys(next).filter(id => next[id] && emailIds.has(id) && !protection.has(id))
+    ))
+  }
+
+  const columns = useMemo<ColumnDef<EmailPreview>[]>(() => [
+    {
+      id: 'select',
+      header: ({ table }) => (
+        <Checkbox
+          checked={table.getIsAllPageRowsSelected() ? true : table.getIsSomePageRowsSelected() ? 'indeterminate' : false}
+          onCheckedChange={(checked) => table.toggleAllPageRowsSelected(!!checked)}
+          aria-label="Select page"
+        />
+      ),
+      cell: ({ row }) => (
+        <Checkbox
+          checked={row.getIsGrouped()
+            ? row.getIsAllSubRowsSelected() ? true : row.getIsSomeSelected() ? 'indeterminate' : false
+            : row.getIsSelected()}
+          disabled={!row.getCanSelect()}
+          onCheckedChange={(checked) => row.toggleSelected(!!checked)}
+          aria-label="Select email"
+        />
+      ),
+      enableSorting: false,
+      enableHiding: false,
+    },
+    {
+      accessorKey: 'sender',
+      header: ({ column }) => <SortHeader column={column} label="Sender" />,
+      getGroupingValue: (email) => extractAddress(email.sender || ''),
+      cell: ({ row }) => {
+        const reason = protection.get(row.original.id)
+        return (
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="truncate max-w-[160px]" title={row.original.sender}>{row.original.sender}</span>
+            {reason && (
+              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-800 shrink-0" title={reason}>
+                <Lock className="h-3 w-3 mr-1" />
+                Protected
+              </Badge>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      accessorKey: 'subject',
+      header: 'Subject',
+      enableSorting: false,
+      cell: ({ row }) => (
+        <div className="min-w-0 max-w-[240px]">
+          <p className="truncate text-gray-900">{row.original.subject}</p>
+          <p className="truncate text-xs text-gray-500">{row.original.snippet}</p>
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'date',
+      header: ({ column }) => <SortHeader column={column} label="Date" />,
+      sortingFn: (a, b) => toTime(a.original.date) - toTime(b.original.date),
+      cell: ({ row }) => (
+        <span className="whitespace-nowrap text-xs text-gray-500">{formatDate(row.original.date)}</span>
+      ),
+    },
+    {
+      accessorKey: 'category',
+      header: ({ column }) => <SortHeader column={column} label="Category" />,
+      sortUndefined: 'last',
+      cell: ({ row }) => row.original.category ? (
+        <Badge variant="secondary" className={`text-xs ${getCategoryColor(row.original.category)}`}>
+          {row.original.category}
+        </Badge>
+      ) : null,
+    },
+  ], [protection])
+
+  const table = useReactTable({
+    data: emails,
+    columns,
+    state: { sorting, globalFilter, grouping, expanded, columnVisibility, rowSelection },
+    getRowId: (email) => email.id,
+    enableRowSelection: (row) => row.getIsGrouped()
+      ? row.subRows.some(sub => !protection.has(sub.id))
+      : !protection.has(row.id),
+    globalFilterFn: matchesText,
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    onGroupingChange: setGrouping,
+    onExpandedChange: setExpanded,
+    onColumnVisibilityChange: setColumnVisibility,
+    onRowSelectionChange: handleRowSelectionChange,
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getGroupedRowModel: getGroupedRowModel(),
+    getExpandedRowModel: getExpandedRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    initialState: { pagination: { pageSize: PAGE_SIZE } },
+  })
+
+  const grouped = grouping.length > 0
+  const rows = table.getRowModel().rows
+  const visibleColumnCount = table.getVisibleLeafColumns().length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            className="pl-9 h-8"
+            value={globalFilter}
+            placeholder="Filter emails"
+            onChange={(e) => setGlobalFilter(e.target.value)}
+          />
+        </div>
+        <Button
+          variant={grouped ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => setGrouping(grouped ? [] : ['sender'])}
+          aria-pressed={grouped}
+        >
+          <Users className="h-4 w-4 mr-1" />
+          Group
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" aria-label="Columns">
+              <Columns className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {table.getAllLeafColumns().filter(column => column.getCanHide()).map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={column.getIsVisible()}
+                onCheckedChange={(checked) => column.toggleVisibility(!!checked)}
+              >
+                {COLUMN_LABELS[column.id] || column.id}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => (
+                  <TableHead key={header.id} className={header.column.id === 'select' ? 'w-8' : undefined}>
+                    {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={visibleColumnCount} className="h-20 text-center text-sm text-gray-500">
+                  No emails match this filter
+                </TableCell>
+              </TableRow>
+            ) : rows.map(row => row.getIsGrouped() ? (
+              <TableRow key={row.id} className="bg-gray-50">
+                {/* The select column is always first and cannot be hidden */}
+                <TableCell>
+                  {flexRender(row.getVisibleCells()[0].column.columnDef.cell, row.getVisibleCells()[0].getContext())}
+                </TableCell>
+                <TableCell colSpan={visibleColumnCount - 1}>
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 text-sm font-medium text-gray-900"
+                    onClick={row.getToggleExpandedHandler()}
+                  >
+                    {row.getIsExpanded() ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    {String(row.groupingValue)}
+                    <Badge variant="secondary" className="text-xs">{row.subRows.length}</Badge>
+                  </button>
+                </TableCell>
+              </TableRow>
+            ) : (
+              <TableRow
+                key={row.id}
+                data-state={row.getIsSelected() ? 'selected' : undefined}
+                className={protection.has(row.id) ? 'bg-amber-50/50' : undefined}
+              >
+                {row.getVisibleCells().map(cell => (
+                  <TableCell key={cell.id} className={row.depth > 0 && cell.column.id === 'select' ? 'pl-6' : undefined}>
+                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {table.getFilteredRowModel().rows.length === emails.length
+            ? `${emails.length} emails`
+            : `${table.getFilteredRowModel().rows.length} of ${emails.length} emails`
+          }
+          {protection.size > 0 && ` · ${protection.size} protected`}
+        </span>
+        <div className="flex items-center gap-2">
+          <span>Page {table.getState().pagination.pageIndex + 1} of {Math.max(table.getPageCount(), 1)}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default EmailPreviewTable
@@ -0,0 +1,292 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react'
+import {
+  CONDITION_TYPES,
+  GMAIL_CATEGORIES,
+  RULE_ACTIONS,
+  createCondition,
+  createRule,
+  getConditionError,
+  getRuleErrors,
+  moveRule,
+  toGmailQuery,
+} from '@/lib/cleanup-rules'
+import { formatDate, formatTime } from '@/lib/format'
+import type { CleanupRule, RuleCondition, RuleConditionType, RuleResult } from '@/types'
+
+interface RuleBuilderProps {
+  rules: CleanupRule[]
+  onChange: (rules: CleanupRule[]) => void
+  /** Latest agent result per rule id */
+  outcomes: Record<string, RuleResult>
+  outcomesAt?: string
+  outcomesDryRun?: boolean
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  canRemove,
+}: {
+  condition: RuleCondition
+  onChange: (condition: RuleCondition) => void
+  onRemove: () => void
+  canRemove: boolean
+}) {
+  const config = CONDITION_TYPES.find(c => c.type === condition.type)
+  const error = getConditionError(condition)
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Select
+          value={condition.type}
+          onValueChange={(value) => {
+            const type = value as RuleConditionType
+            onChange({ ...createCondition(type), id: condition.id })
+          }}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONDITION_TYPES.map(c => (
+              <SelectItem key={c.type} value={c.type}>{c.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {condition.type === 'category' ? (
+          <Select
+            value={condition.value}
+            onValueChange={(value) => onChange({ ...condition, value })}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GMAIL_CATEGORIES.map(category => (
+                <SelectItem key={category} value={category}>{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : condition.type === 'has_attachment' ? (
+          <div className="flex flex-1 items-center gap-2">
+            <Switch
+              checked={condition.value !== 'false'}
+              onCheckedChange={(checked) => onChange({ ...condition, value: String(checked) })}
+            />
+            <span className="text-sm text-gray-600">
+              {condition.value !== 'false' ? 'With attachments' : 'Without attachments'}
+            </span>
+          </div>
+        ) : (
+          <Input
+            className="flex-1"
+            value={condition.value}
+            placeholder={config?.placeholder}
+            inputMode={condition.type === 'older_than_days' || condition.type === 'larger_than_mb' ? 'numeric' : undefined}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          />
+        )}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          disabled={!canRemove}
+          aria-label="Remove condition"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600 ml-1">{error}</p>}
+    </div>
+  )
+}
+
+function RuleOutcome({ result, dryRun }: { result: RuleResult; dryRun?: boolean }) {
+  const failed = /^(failed|error)$/i.test(result.status || '')
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+      <Badge
+        variant="secondary"
+        className={failed ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}
+      >
+        {result.status || 'unknown'}
+      </Badge>
+      <span>{result.emails_found ?? 0} found</span>
+      <span>·</span>
+      <span>
+        {dryRun ? 'dry run, nothing deleted' : `${result.emails_deleted ?? 0} deleted`}
+      </span>
+    </div>
+  )
+}
+
+export function RuleBuilder({ rules, onChange, outcomes, outcomesAt, outcomesDryRun }: RuleBuilderProps) {
+  const updateRule = (ruleId: string, update: (rule: CleanupRule) => CleanupRule) => {
+    onChange(rules.map(rule => (rule.id === ruleId ? update(rule) : rule)))
+  }
+
+  const updateCondition = (ruleId: string, condition: RuleCondition) => {
+    updateRule(ruleId, rule => ({
+      ...rule,
+      conditions: rule.conditions.map(c => (c.id === condition.id ? condition : c)),
+    }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Rules</CardTitle>
+        <CardDescription>
+          Combine conditions into named rules. Rules run in order after the built-in rules.
+          {outcomesAt && ` Outcomes are from the ${outcomesDryRun ? 'test run' : 'run'} on ${formatDate(outcomesAt)} at ${formatTime(outcomesAt)}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No custom rules yet</p>
+        )}
+
+        {rules.map((rule, index) => {
+          const errors = getRuleErrors(rule, rules)
+          const outcome = outcomes[rule.id]
+
+          return (
+            <div
+              key={rule.id}
+              className={`p-4 rounded-lg border space-y-3 ${rule.enabled ? 'bg-white' : 'bg-gray-50 opacity-75'}`}
+            >
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateRule(rule.id, r => ({ ...r, enabled }))}
+                  aria-label="Enable rule"
+                />
+                <Input
+                  className="flex-1 font-medium"
+                  value={rule.name}
+                  placeholder="Rule name"
+                  onChange={(e) => updateRule(rule.id, r => ({ ...r, name: e.target.value }))}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(moveRule(rules, index, -1))}
+                  disabled={index === 0}
+                  aria-label="Move rule up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(moveRule(rules, index, 1))}
+                  disabled={index === rules.length - 1}
+                  aria-label="Move rule down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                  aria-label="Delete rule"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <span>Match</span>
+                <Select
+                  value={rule.match}
+                  onValueChange={(value) => updateRule(rule.id, r => ({ ...r, match: value as CleanupRule['match'] }))}
+                >
+                  <SelectTrigger className="w-[90px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">all</SelectItem>
+                    <SelectItem value="any">any</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span>of these conditions, then</span>
+                <Select
+                  value={rule.action}
+                  onValueChange={(value) => updateRule(rule.id, r => ({ ...r, action: value as CleanupRule['action'] }))}
+                >
+                  <SelectTrigger className="w-[140px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_ACTIONS.map(a => (
+                      <SelectItem key={a.action} value={a.action}>{a.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                {rule.conditions.map(condition => (
+                  <ConditionRow
+                    key={condition.id}
+                    condition={condition}
+                    canRemove={rule.conditions.length > 1}
+                    onChange={(updated) => updateCondition(rule.id, updated)}
+                    onRemove={() => updateRule(rule.id, r => ({
+                      ...r,
+                      conditions: r.conditions.filter(c => c.id !== condition.id),
+                    }))}
+                  />
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateRule(rule.id, r => ({
+                    ...r,
+                    conditions: [...r.conditions, createCondition('keyword')],
+                  }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Condition
+                </Button>
+              </div>
+
+              {errors.length === 0 ? (
+                <p className="text-xs text-gray-500 font-mono break-all">{toGmailQuery(rule)}</p>
+              ) : (
+                <p className="text-xs text-red-600">
+                  {errors.join('. ')}. This rule is not sent until fixed.
+                </p>
+              )}
+
+              {outcome ? (
+                <RuleOutcome result={outcome} dryRun={outcomesDryRun} />
+              ) : (
+                outcomesAt && rule.enabled && (
+                  <p className="text-xs text-gray-400">No result reported for this rule in the last run</p>
+                )
+              )}
+            </div>
+          )
+        })}
+
+        <Button variant="outline" onClick={() => onChange([...rules, createRule(rules)])} className="w-full">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default RuleBuilder
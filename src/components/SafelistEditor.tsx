@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Lock, Plus, X } from 'lucide-react'
+import {
+  getSafelistEntryError,
+  normalizeSafelistEntry,
+  type SafelistField,
+} from '@/lib/safelist'
+import type { Safelist } from '@/types'
+
+interface SafelistEditorProps {
+  safelist: Safelist
+  onChange: (safelist: Safelist) => void
+}
+
+const FIELDS: { field: SafelistField; label: string; description: string; placeholder: string }[] = [
+  {
+    field: 'addresses',
+    label: 'Addresses',
+    description: 'Exact senders, e.g. your boss or your bank',
+    placeholder: 'boss@company.com',
+  },
+  {
+    field: 'domains',
+    label: 'Domains',
+    description: 'Every sender at a domain and its subdomains',
+    placeholder: 'mybank.com',
+  },
+  {
+    field: 'keywords',
+    label: 'Keywords',
+    description: 'Matched in the sender, subject and snippet',
+    placeholder: 'invoice',
+  },
+]
+
+function SafelistFieldEditor({
+  field,
+  label,
+  description,
+  placeholder,
+  entries,
+  onChange,
+}: {
+  field: SafelistField
+  label: string
+  description: string
+  placeholder: string
+  entries: string[]
+  onChange: (entries: string[]) => void
+}) {
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const addEntry = () => {
+    const validationError = getSafelistEntryError(field, draft)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    const entry = normalizeSafelistEntry(field, draft)
+    if (!entries.includes(entry)) onChange([...entries, entry])
+    setDraft('')
+    setError(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5">
+        <Label className="text-base">{label}</Label>
+        <p className="text-sm text-gray-500">{description}</p>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => {
+            setDraft(e.target.value)
+            setError(null)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addEntry()
+            }
+          }}
+        />
+        <Button variant="outline" onClick={addEntry} disabled={!draft.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {entries.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {entries.map(entry => (
+            <span
+              key={entry}
+              className="inline-flex items-center gap-1 rounded-md border bg-amber-50 border-amber-200 px-2 py-1 text-xs text-amber-800"
+            >
+              <Lock className="h-3 w-3" />
+              {entry}
+              <button
+                type="button"
+                aria-label={`Remove ${entry}`}
+                className="text-amber-600 hover:text-red-600"
+                onClick={() => onChange(entries.filter(e => e !== entry))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function SafelistEditor({ safelist, onChange }: SafelistEditorProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Protected Senders</CardTitle>
+        <CardDescription>
+          Mail matching the safelist is never deleted, by chat or by scheduled cleanup
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {FIELDS.map(({ field, label, description, placeholder }, index) => (
+          <div key={field} className="space-y-4">
+            {index > 0 && <Separator />}
+            <SafelistFieldEditor
+              field={field}
+              label={label}
+              description={description}
+              placeholder={placeholder}
+              entries={safelist[field]}
+              onChange={(entries) => onChange({ ...safelist, [field]: entries })}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SafelistEditor
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Lock, Newspaper, Trash2 } from 'lucide-react'
+import {
+  SENDER_SORTS,
+  getNewsletterSignals,
+  getSenderAgeDays,
+  getTopCategory,
+  rankSenders,
+  type SenderIndex,
+  type SenderSort,
+} from '@/lib/sender-index'
+import { describeProtection, getProtectionMatch } from '@/lib/safelist'
+import type { Safelist } from '@/types'
+
+interface SenderAnalyticsProps {
+  index: SenderIndex
+  safelist: Safelist
+  /** Disables the clean action while the cleaner bot is busy */
+  busy: boolean
+  onCleanSender: (address: string) => void
+}
+
+const MAX_LISTED_SENDERS = 25
+
+function formatAge(days: number): string {
+  if (days < 1) return 'today'
+  if (days < 60) return `${days}d old`
+  if (days < 730) return `${Math.round(days / 30)}mo old`
+  return `${Math.round(days / 365)}y old`
+}
+
+export function SenderAnalytics({ index, safelist, busy, onCleanSender }: SenderAnalyticsProps) {
+  const [sort, setSort] = useState<SenderSort>('volume')
+  const [newslettersOnly, setNewslettersOnly] = useState(false)
+
+  const ranked = useMemo(() => rankSenders(index, sort), [index, sort])
+  const newsletterCount = useMemo(
+    () => ranked.filter(sender => getNewsletterSignals(sender).length > 0).length,
+    [ranked]
+  )
+  const listed = (newslettersOnly
+    ? ranked.filter(sender => getNewsletterSignals(sender).length > 0)
+    : ranked
+  ).slice(0, MAX_LISTED_SENDERS)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Top Senders</CardTitle>
+          <CardDescription>
+            {ranked.length === 0
+              ? 'Built from every email preview you see'
+              : `${ranked.length} senders seen · ${newsletterCount} likely newsletters`
+            }
+          </CardDescription>
+        </div>
+        <Select value={sort} onValueChange={(value) => setSort(value as SenderSort)}>
+          <SelectTrigger className="w-[150px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SENDER_SORTS.map(option => (
+              <SelectItem key={option.sort} value={option.sort}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch id="newsletters-only" checked={newslettersOnly} onCheckedChange={setNewslettersOnly} />
+          <Label htmlFor="newsletters-only" className="text-sm">Likely newsletters only</Label>
+        </div>
+
+        <ScrollArea className="h-[360px] pr-4">
+          {listed.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {ranked.length === 0 ? 'Ask the assistant to find some emails to start the index' : 'No likely newsletters yet'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {listed.map(sender => {
+                const signals = getNewsletterSignals(sender)
+                const protection = getProtectionMatch(
+                  { id: sender.address, sender: sender.address, subject: '', snippet: '', date: sender.newestDate },
+                  safelist
+                )
+                const category = getTopCategory(sender)
+
+                return (
+                  <div key={sender.address} className="flex items-center gap-3 p-3 rounded-lg border bg-gray-50">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium text-gray-900 truncate" title={sender.address}>{sender.name}</p>
+                        {signals.length > 0 && (
+                          <Badge variant="secondary" className="text-xs bg-purple-100 text-purple-800 shrink-0" title={signals.join(', ')}>
+                            <Newspaper className="h-3 w-3 mr-1" />
+                            Newsletter
+                          </Badge>
+                        )}
+                        {protection && (
+                          <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-800 shrink-0" title={describeProtection(protection)}>
+                            <Lock className="h-3 w-3 mr-1" />
+                            Protected
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">
+                        {sender.address}
+                        {' · '}{sender.count} {sender.count === 1 ? 'email' : 'emails'}
+                        {' · oldest '}{formatAge(getSenderAgeDays(sender))}
+                        {category && ` · ${category}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onCleanSender(sender.address)}
+                      disabled={busy || !!protection}
+                      title={protection ? describeProtection(protection) : `Clean all from ${sender.address}`}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1 text-red-600" />
+                      Clean all
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SenderAnalytics
@@ -0,0 +1,427 @@
+import { useEffect, useRef } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Separator } from '@/components/ui/separator'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { CheckCircle, Download, Filter, Loader2, RotateCcw, Upload } from 'lucide-react'
+import { RuleBuilder } from '@/components/RuleBuilder'
+import { SafelistEditor } from '@/components/SafelistEditor'
+import { matchRuleResults, type StoredRuleResults } from '@/lib/cleanup-rules'
+import {
+  DEFAULT_SETTINGS,
+  cleanupSettingsSchema,
+  parseSettingsImport,
+  toSettingsExport,
+  type SettingsIssue,
+} from '@/lib/settings'
+import { downloadTextFile } from '@/lib/download'
+import type { CleanupSettings } from '@/types'
+
+export interface SettingsNotice {
+  title: string
+  issues: SettingsIssue[]
+  variant: 'success' | 'warning' | 'error'
+}
+
+interface SettingsFormProps {
+  /** Last saved settings; the form is dirty while its values differ */
+  savedSettings: CleanupSettings
+  /** Returns false when the settings could not be stored */
+  onSave: (settings: CleanupSettings) => boolean
+  onTestRun: (settings: CleanupSettings) => void
+  testRunning: boolean
+  ruleResults: StoredRuleResults | null
+  onDirtyChange: (dirty: boolean) => void
+  /** Reports the outcome of an import */
+  onNotice: (notice: SettingsNotice) => void
+}
+
+/** Stored settings may keep a disabled frequency; the form asks for a real one */
+const settingsFormSchema = cleanupSettingsSchema.superRefine((settings, ctx) => {
+  if (settings.scheduleEnabled && settings.frequency === 'disabled') {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['frequency'],
+      message: 'Choose daily or weekly, or turn scheduling off',
+    })
+  }
+})
+
+function toNumber(value: string): number {
+  return value === '' ? NaN : Number(value)
+}
+
+export function SettingsForm({
+  savedSettings,
+  onSave,
+  onTestRun,
+  testRunning,
+  ruleResults,
+  onDirtyChange,
+  onNotice,
+}: SettingsFormProps) {
+  const form = useForm<CleanupSettings>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: savedSettings,
+    mode: 'onChange',
+  })
+  const { isDirty, isValid } = form.formState
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const oldEmails = form.watch('oldEmails')
+  const scheduleEnabled = form.watch('scheduleEnabled')
+
+  useEffect(() => {
+    onDirtyChange(isDirty)
+  }, [isDirty, onDirtyChange])
+
+  // Saved settings can change underneath, e.g. a rule toggled from the
+  // command palette; a form without edits follows them
+  useEffect(() => {
+    if (!form.formState.isDirty) form.reset(savedSettings)
+  }, [savedSettings, form])
+
+  // Closing or reloading the tab would lose the edits
+  useEffect(() => {
+    if (!isDirty) return
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', onBeforeUnload)
+    return () => window.removeEventListener('beforeunload', onBeforeUnload)
+  }, [isDirty])
+
+  const save = form.handleSubmit(values => {
+    if (onSave(values)) form.reset(values)
+  })
+
+  const testRun = form.handleSubmit(values => onTestRun(values))
+
+  // Keep the saved values as the baseline so the form stays dirty until saved
+  const replaceValues = (values: CleanupSettings) => {
+    form.reset(values, { keepDefaultValues: true })
+    form.trigger()
+  }
+
+  const exportSettings = () => {
+    const date = new Date().toISOString().slice(0, 10)
+    downloadTextFile(`gmail-cleaner-settings-${date}.json`, toSettingsExport(form.getValues()), 'application/json')
+  }
+
+  // Imported settings fill the form; nothing changes until they are saved
+  const importSettings = async (file: File) => {
+    try {
+      const result = parseSettingsImport(await file.text())
+      replaceValues(result.settings)
+      onNotice({
+        title: `Imported ${file.name}. Review the settings and save to apply them.`,
+        issues: result.issues,
+        variant: result.issues.length > 0 ? 'warning' : 'success',
+      })
+    } catch (e) {
+      onNotice({
+        title: `Could not import ${file.name}`,
+        issues: [{ path: '', message: e instanceof Error ? e.message : 'The file could not be read' }],
+        variant: 'error',
+      })
+    }
+  }
+
+  return (
+    <Form {...form}>
+      {/* Not a <form>: Enter in a rule or safelist input must not save */}
+      <div className="space-y-6">
+        <div className="flex items-center justify-end gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) importSettings(file)
+            }}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={exportSettings}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => replaceValues(DEFAULT_SETTINGS)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cleanup Rules</CardTitle>
+            <CardDescription>Configure what types of emails to clean</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="promotional"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Promotional Emails</FormLabel>
+                    <FormDescription>Clean promotional and marketing emails</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            <div className="space-y-2">
+              <FormField
+                control={form.control}
+                name="oldEmails"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between space-y-0">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Old Emails</FormLabel>
+                      <FormDescription>Clean emails older than threshold</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {oldEmails && (
+                <FormField
+                  control={form.control}
+                  name="ageThreshold"
+                  render={({ field }) => (
+                    <FormItem className="mt-2">
+                      <FormLabel className="text-sm text-gray-600">Age Threshold (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={3650}
+                          name={field.name}
+                          ref={field.ref}
+                          value={Number.isNaN(field.value) ? '' : field.value}
+                          onChange={(e) => field.onChange(toNumber(e.target.value))}
+                          onBlur={field.onBlur}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <FormField
+          control={form.control}
+          name="rules"
+          render={({ field }) => (
+            <RuleBuilder
+              rules={field.value}
+              onChange={field.onChange}
+              outcomes={ruleResults ? matchRuleResults(field.value, ruleResults.results) : {}}
+              outcomesAt={ruleResults?.timestamp}
+              outcomesDryRun={ruleResults?.dryRun}
+            />
+          )}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule</CardTitle>
+            <CardDescription>Automate your email cleanup</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="scheduleEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Enable Scheduling</FormLabel>
+                    <FormDescription>Run cleanup automatically</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked)
+                        form.trigger('frequency')
+                      }}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {scheduleEnabled && (
+              <>
+                <Separator />
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Frequency</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="disabled">Disabled</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="scheduleTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Safety Settings</CardTitle>
+            <CardDescription>Protect your important emails</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="requireConfirmation"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Require Confirmation</FormLabel>
+                    <FormDescription>Ask before deleting emails</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            <FormField
+              control={form.control}
+              name="maxEmailsPerRun"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max Emails Per Run</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={1000}
+                      name={field.name}
+                      ref={field.ref}
+                      value={Number.isNaN(field.value) ? '' : field.value}
+                      onChange={(e) => field.onChange(toNumber(e.target.value))}
+                      onBlur={field.onBlur}
+                    />
+                  </FormControl>
+                  <FormDescription>Runs that report more deletions than this are flagged</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <FormField
+          control={form.control}
+          name="safelist"
+          render={({ field }) => (
+            <SafelistEditor safelist={field.value} onChange={field.onChange} />
+          )}
+        />
+
+        {isDirty && (
+          <div className="flex items-center justify-between gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-700">
+              {isValid ? 'You have unsaved changes.' : 'You have unsaved changes. Fix the highlighted fields to save them.'}
+            </p>
+            <Button type="button" variant="ghost" size="sm" onClick={() => form.reset()}>
+              Discard changes
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            type="button"
+            onClick={save}
+            disabled={!isDirty}
+            className="flex-1 bg-blue-600 hover:bg-blue-700"
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Save Settings
+          </Button>
+          <Button
+            type="button"
+            onClick={testRun}
+            disabled={testRunning}
+            variant="outline"
+            className="flex-1"
+          >
+            {testRunning ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Filter className="h-4 w-4 mr-2" />
+            )}
+            Test Run
+          </Button>
+        </div>
+      </div>
+    </Form>
+  )
+}
+
+export default SettingsForm
@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Kbd, KbdGroup } from '@/components/ui/kbd'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { RotateCcw, X } from 'lucide-react'
+import {
+  SHORTCUT_ACTIONS,
+  formatBinding,
+  getBindingFromEvent,
+  type ShortcutAction,
+  type ShortcutActionId,
+  type ShortcutBindings,
+} from '@/lib/shortcuts'
+
+interface ShortcutHelpSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  /** Returns the action that lost the binding, if any */
+  onBind: (actionId: ShortcutActionId, binding: string | null) => ShortcutActionId | null
+  onReset: () => void
+}
+
+export function ShortcutKeys({ binding }: { binding: string }) {
+  return (
+    <KbdGroup>
+      {formatBinding(binding).map((key, index) => (
+        <Kbd key={index}>{key}</Kbd>
+      ))}
+    </KbdGroup>
+  )
+}
+
+const GROUPS = [...new Set(SHORTCUT_ACTIONS.map(action => action.group))]
+
+function getActionLabel(actionId: ShortcutActionId): string {
+  return SHORTCUT_ACTIONS.find(action => action.id === actionId)?.label ?? actionId
+}
+
+export function ShortcutHelpSheet({ open, onOpenChange, bindings, onBind, onReset }: ShortcutHelpSheetProps) {
+  const [recording, setRecording] = useState<ShortcutActionId | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const record = (action: ShortcutAction, event: React.KeyboardEvent) => {
+    // Keep the key press from reaching the global shortcuts or closing the sheet
+    event.preventDefault()
+    event.stopPropagation()
+
+    if (event.key === 'Escape') {
+      setRecording(null)
+      return
+    }
+    const binding = getBindingFromEvent(event.nativeEvent)
+    if (!binding) return
+
+    const displaced = onBind(action.id, binding)
+    setRecording(null)
+    setNotice(displaced ? `${getActionLabel(displaced)} no longer has a shortcut.` : null)
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          setRecording(null)
+          setNotice(null)
+        }
+        onOpenChange(next)
+      }}
+    >
+      <SheetContent
+        className="overflow-y-auto"
+        onEscapeKeyDown={(e) => {
+          // Escape cancels recording instead of closing the sheet
+          if (recording) {
+            e.preventDefault()
+            setRecording(null)
+          }
+        }}
+      >
+        <SheetHeader>
+          <SheetTitle>Keyboard shortcuts</SheetTitle>
+          <SheetDescription>
+            Click a shortcut to change it, then press the new keys. Shortcuts without Cmd or Ctrl are off while typing.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {GROUPS.map(group => (
+            <div key={group} className="space-y-2">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">{group}</p>
+              {SHORTCUT_ACTIONS.filter(action => action.group === group).map(action => {
+                const binding = bindings[action.id]
+                const isRecording = recording === action.id
+                return (
+                  <div key={action.id} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-gray-900">{action.label}</span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className={`min-w-[96px] justify-center ${isRecording ? 'border-blue-500 ring-2 ring-blue-200' : ''}`}
+                        onClick={() => setRecording(isRecording ? null : action.id)}
+                        onKeyDown={isRecording ? (e) => record(action, e) : undefined}
+                        onBlur={() => isRecording && setRecording(null)}
+                        aria-label={`Change shortcut for ${action.label}`}
+                      >
+                        {isRecording ? (
+                          <span className="text-xs text-blue-600">Press keys…</span>
+                        ) : binding ? (
+                          <ShortcutKeys binding={binding} />
+                        ) : (
+                          <span className="text-xs text-gray-400">None</span>
+                        )}
+                      </Button>
+                      {binding && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => onBind(action.id, null)}
+                          aria-label={`Remove shortcut for ${action.label}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+
+          {notice && <p className="text-sm text-amber-700">{notice}</p>}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onReset()
+              setNotice(null)
+            }}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default ShortcutHelpSheet
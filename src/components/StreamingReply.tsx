@@ -0,0 +1,56 @@
+import { AlertTriangle, Ban, CheckCircle, Loader2, Wrench } from 'lucide-react'
+import type { ToolActivity, ToolActivityStatus } from '@/lib/agent-stream'
+
+interface StreamingReplyProps {
+  /** Reply text received so far */
+  text: string
+  tools: ToolActivity[]
+}
+
+function ToolStatusIcon({ status }: { status: ToolActivityStatus }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-3 w-3 animate-spin text-blue-600" />
+    case 'done':
+      return <CheckCircle className="h-3 w-3 text-green-600" />
+    case 'failed':
+      return <AlertTriangle className="h-3 w-3 text-red-600" />
+    case 'blocked':
+      return <Ban className="h-3 w-3 text-amber-600" />
+  }
+}
+
+/**
+ * The assistant's reply while it is still arriving, with the tools it has
+ * called so far
+ */
+export function StreamingReply({ text, tools }: StreamingReplyProps) {
+  return (
+    <div className="flex justify-start" aria-live="polite">
+      <div className="max-w-[80%] rounded-lg px-4 py-2 bg-gray-100 text-gray-900 space-y-2">
+        {tools.length > 0 && (
+          <ul className="space-y-1">
+            {tools.map(tool => (
+              <li key={tool.id} className="flex items-center gap-1.5 text-xs text-gray-600" title={tool.detail}>
+                <Wrench className="h-3 w-3 text-gray-400" />
+                <span className="font-mono">{tool.toolName}</span>
+                <ToolStatusIcon status={tool.status} />
+                <span className="text-gray-500">{tool.status}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {text ? (
+          <p className="text-sm whitespace-pre-wrap">{text}</p>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Thinking…
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default StreamingReply
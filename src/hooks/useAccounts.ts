@@ -0,0 +1,69 @@
+/**
+ * useAccounts Hook
+ *
+ * Holds the managed Gmail accounts and the one being shown. Everything
+ * scoped to an account reads its storage once on mount, so the page is
+ * remounted with the account id as its key when the account changes.
+ *
+ * @example
+ * ```tsx
+ * const accounts = useAccounts()
+ *
+ * return <Workspace key={accounts.activeAccount.id} account={accounts.activeAccount} />
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { GmailAccount } from '@/types'
+import {
+  DEFAULT_ACCOUNT_ID,
+  clearAccountStorage,
+  createAccount,
+  loadAccounts,
+  loadActiveAccountId,
+  saveAccounts,
+  saveActiveAccountId,
+} from '@/lib/accounts'
+
+export function useAccounts() {
+  const [accounts, setAccounts] = useState<GmailAccount[]>(loadAccounts)
+  const [activeAccountId, setActiveAccountId] = useState<string>(loadActiveAccountId)
+
+  useEffect(() => {
+    saveAccounts(accounts)
+  }, [accounts])
+
+  useEffect(() => {
+    saveActiveAccountId(activeAccountId)
+  }, [activeAccountId])
+
+  const activeAccount = accounts.find(a => a.id === activeAccountId) || accounts[0]
+
+  const switchAccount = useCallback((accountId: string) => {
+    setActiveAccountId(accountId)
+  }, [])
+
+  const addAccount = useCallback((label: string, email: string): GmailAccount => {
+    const account = createAccount(label, email)
+    setAccounts(prev => [...prev, account])
+    setActiveAccountId(account.id)
+    return account
+  }, [])
+
+  const removeAccount = useCallback((accountId: string) => {
+    if (accountId === DEFAULT_ACCOUNT_ID) return
+    clearAccountStorage(accountId)
+    setAccounts(prev => prev.filter(a => a.id !== accountId))
+    setActiveAccountId(prev => (prev === accountId ? DEFAULT_ACCOUNT_ID : prev))
+  }, [])
+
+  return {
+    accounts,
+    activeAccount,
+    switchAccount,
+    addAccount,
+    removeAccount,
+  }
+}
+
+export default useAccounts
@@ -0,0 +1,110 @@
+/**
+ * useActivityHistory Hook
+ *
+ * Loads one account's IndexedDB activity history and records new entries
+ * for it. The list updates immediately; the write happens in the
+ * background, and other open tabs reload when it lands.
+ *
+ * @example
+ * ```tsx
+ * const { entries, addEntry } = useActivityHistory(accountId)
+ *
+ * addEntry({
+ *   action: 'Chat cleanup: promotions',
+ *   emailsDeleted: data.emails_deleted,
+ *   status: 'success',
+ *   source: 'chat',
+ *   response: data,
+ * })
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ActivityLog } from '@/types'
+import {
+  ACTIVITY_CHANNEL,
+  createActivityEntry,
+  loadActivityHistory,
+  saveActivityEntry,
+  sortActivity,
+  type NewActivityEntry,
+} from '@/lib/activity-history'
+
+/**
+ * Stored entries win, so changes from other tabs show up; entries not
+ * written yet are kept
+ */
+function mergeEntries(stored: ActivityLog[], current: ActivityLog[]): ActivityLog[] {
+  const byId = new Map(stored.map(entry => [entry.id, entry]))
+  for (const entry of current) {
+    if (!byId.has(entry.id)) byId.set(entry.id, entry)
+  }
+  return sortActivity([...byId.values()])
+}
+
+function openChannel(): BroadcastChannel | null {
+  return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(ACTIVITY_CHANNEL)
+}
+
+export function useActivityHistory(accountId: string) {
+  const [entries, setEntries] = useState<ActivityLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const stored = await loadActivityHistory(accountId)
+      // Keep entries added while the load was in flight
+      setEntries(prev => mergeEntries(stored, prev))
+      setError(null)
+    } catch (e) {
+      console.error('Failed to load activity history:', e)
+      setError('Activity history could not be loaded. New activity is kept until the page is closed.')
+    } finally {
+      setLoading(false)
+    }
+  }, [accountId])
+
+  useEffect(() => {
+    reload()
+
+    const channel = openChannel()
+    if (!channel) return
+    channel.onmessage = () => {
+      reload()
+    }
+    return () => channel.close()
+  }, [reload])
+
+  const persist = useCallback((entry: ActivityLog) => {
+    saveActivityEntry(entry)
+      .then(() => {
+        const channel = openChannel()
+        channel?.postMessage(entry.id)
+        channel?.close()
+      })
+      .catch(e => console.error('Failed to save activity entry:', e))
+  }, [])
+
+  const addEntry = useCallback((fields: NewActivityEntry): ActivityLog => {
+    const entry = createActivityEntry({ ...fields, accountId })
+    setEntries(prev => [entry, ...prev])
+    persist(entry)
+    return entry
+  }, [persist, accountId])
+
+  const updateEntry = useCallback((entry: ActivityLog) => {
+    setEntries(prev => prev.map(e => (e.id === entry.id ? entry : e)))
+    persist(entry)
+  }, [persist])
+
+  return {
+    entries,
+    loading,
+    error,
+    addEntry,
+    updateEntry,
+  }
+}
+
+export default useActivityHistory
@@ -6,16 +6,17 @@
  *
  * @example
  * ```tsx
- * const { callAgent, loading, error, response } = useAgent({ agentId: 'xxx' })
+ * const { callAgent, cancel, loading, error, response } = useAgent({ agentId: 'xxx' })
  *
  * // response is NormalizedAgentResponse:
  * // { status: 'success', result: {...}, message?: string }
  * ```
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
-import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/utils/aiAgent'
+import { callAIAgent, NormalizedAgentResponse, AIAgentResponse, AgentCallOutcome } from '@/utils/aiAgent'
+import { getAgentClient } from '@/utils/agentClient'
 
 // =============================================================================
 // Types
@@ -44,10 +45,15 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  /** Aborting ends the call with the `cancelled` outcome */
+  signal?: AbortSignal
+  /** Limit for each attempt; see callAIAgent */
+  timeoutMs?: number
 }
 
 interface UseAgentResult {
   success: boolean
+  outcome: AgentCallOutcome
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
@@ -81,7 +87,7 @@ const createErrorDetails = (
   type,
   message,
   raw_response,
-  endpoint: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat',
+  endpoint: getAgentClient().chatUrl,
   timestamp: new Date().toISOString(),
   userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
   url: typeof window !== 'undefined' ? window.location.href : 'unknown',
@@ -122,9 +128,10 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
+    const { message, agentId, userId, sessionId, signal, timeoutMs } = callOptions
     const finalAgentId = agentId || options.agentId || import.meta.env.VITE_AGENT_ID
 
     if (!finalAgentId) {
@@ -132,22 +139,50 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       setError(err)
       return {
         success: false,
+        outcome: 'error',
         response: { status: 'error', result: {}, message: 'No agent_id provided' },
         error: err,
       }
     }
 
+    // A signal that is already aborted never starts a request
+    if (signal?.aborted) {
+      return {
+        success: false,
+        outcome: 'cancelled',
+        response: { status: 'error', result: {}, message: 'Request cancelled' },
+      }
+    }
+
     setLoading(true)
     setError(null)
 
+    // cancel() aborts this call; so does the caller's own signal
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const forwardAbort = () => controller.abort()
+    signal?.addEventListener('abort', forwardAbort, { once: true })
+
     try {
       // Use the centralized callAIAgent which handles normalization
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal: controller.signal,
+        timeoutMs,
       })
 
       setLastResult(result)
+
+      // A cancelled call is not an error: no modal, no onError
+      if (result.outcome === 'cancelled') {
+        return {
+          success: false,
+          outcome: 'cancelled',
+          response: result.response,
+        }
+      }
+
       setResponse(result.response)
 
       if (!result.success) {
@@ -172,6 +207,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
         return {
           success: false,
+          outcome: result.outcome,
           response: result.response,
           raw_response: result.raw_response,
           error: errorDetails,
@@ -200,6 +236,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
       return {
         success: true,
+        outcome: 'success',
         response: result.response,
         raw_response: result.raw_response,
       }
@@ -226,15 +263,23 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
       return {
         success: false,
+        outcome: 'error',
         response: { status: 'error', result: {}, message: err.message },
         error: err,
       }
 
     } finally {
+      signal?.removeEventListener('abort', forwardAbort)
+      if (controllerRef.current === controller) controllerRef.current = null
       setLoading(false)
     }
   }, [options])
 
+  /** Abort the call in flight, if any */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
   const requestFix = useCallback(() => {
     if (error) {
       requestFixFromParent(error)
@@ -247,6 +292,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
   return {
     callAgent,
+    cancel,
     loading,
     error,
     response,
@@ -266,14 +312,24 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 export const callAgentAPI = async (
   message: string,
   agentId: string,
-  options?: { userId?: string; sessionId?: string }
+  options?: { userId?: string; sessionId?: string; signal?: AbortSignal; timeoutMs?: number }
 ): Promise<UseAgentResult> => {
   try {
     const result = await callAIAgent(message, agentId, {
       user_id: options?.userId,
       session_id: options?.sessionId,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
     })
 
+    if (result.outcome === 'cancelled') {
+      return {
+        success: false,
+        outcome: 'cancelled',
+        response: result.response,
+      }
+    }
+
     if (!result.success || result.response.status === 'error') {
       const errorDetails = createErrorDetails(
         'api_error',
@@ -290,6 +346,7 @@ export const callAgentAPI = async (
 
       return {
         success: false,
+        outcome: result.success ? 'error' : result.outcome,
         response: result.response,
         raw_response: result.raw_response,
         error: errorDetails,
@@ -298,6 +355,7 @@ export const callAgentAPI = async (
 
     return {
       success: true,
+      outcome: 'success',
       response: result.response,
       raw_response: result.raw_response,
     }
@@ -317,6 +375,7 @@ export const callAgentAPI = async (
 
     return {
       success: false,
+      outcome: 'error',
       response: { status: 'error', result: {}, message: err.message },
       error: err,
     }
@@ -324,6 +383,6 @@ export const callAgentAPI = async (
 }
 
 // Re-export types for convenience
-export type { NormalizedAgentResponse, AIAgentResponse }
+export type { NormalizedAgentResponse, AIAgentResponse, AgentCallOutcome }
 
 export default useAgent
@@ -0,0 +1,106 @@
+/**
+ * useAgentHealth Hook
+ *
+ * Pings every agent on an interval, again when the tab becomes visible or
+ * the network comes back, and keeps the tool errors reported by the most
+ * recent run of each agent.
+ *
+ * @example
+ * ```tsx
+ * const { health, reportErrors } = useAgentHealth()
+ *
+ * const data = result.response.result as PeriodicResponse
+ * reportErrors(PERIODIC_AGENT_ID, data.errors)
+ * ```
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  HEALTH_AGENTS,
+  HEALTH_CHECK_INTERVAL_MS,
+  applyToolErrors,
+  checkAgentHealth,
+  createInitialHealth,
+  detectToolErrors,
+  type AgentHealth,
+  type HealthAgent,
+} from '@/lib/agent-health'
+
+export function useAgentHealth(agents: HealthAgent[] = HEALTH_AGENTS) {
+  const [health, setHealth] = useState<AgentHealth[]>(() => agents.map(createInitialHealth))
+  const [checking, setChecking] = useState(false)
+
+  const healthRef = useRef(health)
+  healthRef.current = health
+  const checkingRef = useRef(false)
+
+  const checkNow = useCallback(async () => {
+    if (checkingRef.current) return
+    checkingRef.current = true
+    setChecking(true)
+
+    try {
+      const results = await Promise.all(agents.map(agent => checkAgentHealth(
+        agent,
+        healthRef.current.find(h => h.agentId === agent.agentId) || createInitialHealth(agent)
+      )))
+      // Tool errors reported while the pings were in flight are newer
+      setHealth(prev => results.map(result => ({
+        ...result,
+        toolErrors: prev.find(h => h.agentId === result.agentId)?.toolErrors || [],
+      })))
+    } finally {
+      checkingRef.current = false
+      setChecking(false)
+    }
+  }, [agents])
+
+  const reportErrors = useCallback((agentId: string, errors: unknown) => {
+    const agent = agents.find(a => a.agentId === agentId)
+    if (!agent) return
+    const toolErrors = detectToolErrors(errors, agent.tools)
+    setHealth(prev => prev.map(h => (h.agentId === agentId ? { ...h, toolErrors } : h)))
+  }, [agents])
+
+  useEffect(() => {
+    checkNow()
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') checkNow()
+    }, HEALTH_CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [checkNow])
+
+  useEffect(() => {
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') checkNow()
+    }
+    const onOffline = () => {
+      const checkedAt = new Date().toISOString()
+      setHealth(prev => prev.map(h => ({
+        ...h,
+        status: 'down',
+        lastCheckedAt: checkedAt,
+        reason: 'This device is offline',
+        responseTimeMs: null,
+      })))
+    }
+
+    document.addEventListener('visibilitychange', onVisible)
+    window.addEventListener('online', checkNow)
+    window.addEventListener('offline', onOffline)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisible)
+      window.removeEventListener('online', checkNow)
+      window.removeEventListener('offline', onOffline)
+    }
+  }, [checkNow])
+
+  return {
+    health: health.map(applyToolErrors),
+    checking,
+    checkNow,
+    reportErrors,
+  }
+}
+
+export default useAgentHealth
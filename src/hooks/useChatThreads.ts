@@ -0,0 +1,149 @@
+/**
+ * useChatThreads Hook
+ *
+ * Holds the persisted chat threads and the active one. Updates address a
+ * thread by id, so a reply that arrives after the user switched threads
+ * still lands in the conversation that asked for it.
+ *
+ * @example
+ * ```tsx
+ * const { activeThread, appendMessages } = useChatThreads({ agentId, accountId })
+ *
+ * await callAIAgent(text, agentId, {
+ *   session_id: activeThread.sessionId,
+ *   user_id: activeThread.userId,
+ * })
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ChatMessage, ChatThread, CriteriaIdentified, EmailPreview } from '@/types'
+import {
+  createChatThread,
+  deriveThreadTitle,
+  loadActiveThreadId,
+  loadChatThreads,
+  saveActiveThreadId,
+  saveChatThreads,
+  sortThreads,
+} from '@/lib/chat-threads'
+
+interface UseChatThreadsOptions {
+  agentId: string
+  /** Threads are stored per account; remount the hook to switch */
+  accountId: string
+}
+
+function initThreads(agentId: string, accountId: string): { threads: ChatThread[]; activeId: string } {
+  const threads = loadChatThreads(accountId)
+  const storedActiveId = loadActiveThreadId(accountId)
+
+  if (threads.length === 0) {
+    const thread = createChatThread(agentId, accountId)
+    return { threads: [thread], activeId: thread.id }
+  }
+
+  const activeId = threads.some(t => t.id === storedActiveId)
+    ? storedActiveId
+    : sortThreads(threads)[0].id
+  return { threads, activeId }
+}
+
+export function useChatThreads({ agentId, accountId }: UseChatThreadsOptions) {
+  const [initial] = useState(() => initThreads(agentId, accountId))
+  const [threads, setThreads] = useState<ChatThread[]>(initial.threads)
+  const [activeThreadId, setActiveThreadId] = useState<string>(initial.activeId)
+
+  useEffect(() => {
+    saveChatThreads(sortThreads(threads), accountId)
+  }, [threads, accountId])
+
+  useEffect(() => {
+    saveActiveThreadId(activeThreadId, accountId)
+  }, [activeThreadId, accountId])
+
+  const activeThread = threads.find(t => t.id === activeThreadId) || threads[0]
+
+  const updateThread = useCallback((threadId: string, update: (thread: ChatThread) => ChatThread) => {
+    setThreads(prev => prev.map(thread => {
+      if (thread.id !== threadId) return thread
+      const updated = update(thread)
+      return {
+        ...updated,
+        title: deriveThreadTitle(updated),
+        updatedAt: new Date().toISOString(),
+      }
+    }))
+  }, [])
+
+  const appendMessages = useCallback((threadId: string, ...messages: ChatMessage[]) => {
+    updateThread(threadId, thread => ({
+      ...thread,
+      chatMessages: [...thread.chatMessages, ...messages],
+    }))
+  }, [updateThread])
+
+  const setEmailPreviews = useCallback((
+    threadId: string,
+    update: EmailPreview[] | ((prev: EmailPreview[]) => EmailPreview[])
+  ) => {
+    updateThread(threadId, thread => ({
+      ...thread,
+      emailPreviews: typeof update === 'function' ? update(thread.emailPreviews) : update,
+    }))
+  }, [updateThread])
+
+  const setConfirmationRequired = useCallback((threadId: string, confirmationRequired: boolean) => {
+    updateThread(threadId, thread => ({ ...thread, confirmationRequired }))
+  }, [updateThread])
+
+  const setCriteria = useCallback((threadId: string, criteria: CriteriaIdentified | null) => {
+    updateThread(threadId, thread => ({ ...thread, criteria }))
+  }, [updateThread])
+
+  const setHasAttachment = useCallback((threadId: string, hasAttachment: boolean) => {
+    updateThread(threadId, thread => ({ ...thread, hasAttachment }))
+  }, [updateThread])
+
+  const createThread = useCallback(() => {
+    const thread = createChatThread(agentId, accountId)
+    setThreads(prev => [thread, ...prev])
+    setActiveThreadId(thread.id)
+    return thread
+  }, [agentId, accountId])
+
+  const selectThread = useCallback((threadId: string) => {
+    setActiveThreadId(threadId)
+  }, [])
+
+  const deleteThread = useCallback((threadId: string) => {
+    const remaining = threads.filter(t => t.id !== threadId)
+
+    if (remaining.length === 0) {
+      const thread = createChatThread(agentId, accountId)
+      setThreads([thread])
+      setActiveThreadId(thread.id)
+      return
+    }
+
+    setThreads(remaining)
+    if (activeThreadId === threadId) {
+      setActiveThreadId(sortThreads(remaining)[0].id)
+    }
+  }, [threads, activeThreadId, agentId, accountId])
+
+  return {
+    threads: sortThreads(threads),
+    activeThread,
+    createThread,
+    selectThread,
+    deleteThread,
+    appendMessages,
+    setEmailPreviews,
+    setConfirmationRequired,
+    setCriteria,
+    setHasAttachment,
+  }
+}
+
+export default useChatThreads
@@ -0,0 +1,224 @@
+/**
+ * useCleanupScheduler Hook
+ *
+ * Fires the periodic cleanup while the app is open. The next run is
+ * persisted so that a run missed while the tab was closed is caught up
+ * on the next load, and a claim in storage keeps two open tabs from
+ * running the same slot twice. Each account has its own schedule; only
+ * the account being shown runs, and the others catch up when opened.
+ * A run is postponed while another cleanup is in progress, and with
+ * `holdOverdue` a run already overdue when the hook starts waits as
+ * pending until `runPending` or `skipPending` is called.
+ *
+ * @example
+ * ```tsx
+ * const { schedule, drift, pending, runPending } = useCleanupScheduler({
+ *   accountId,
+ *   settings: savedSettings,
+ *   busy: periodicLoading,
+ *   onRun: async (trigger) => {
+ *     const data = await runPeriodicCleanup(trigger)
+ *     return { success: !!data, agentNextRun: data?.next_scheduled_run }
+ *   },
+ * })
+ * ```
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { CleanupSettings } from '@/types'
+import {
+  computeNextRun,
+  getScheduleKey,
+  hasScheduleDrift,
+  isRunClaimed,
+  isRunOverdue,
+  isScheduleStorageKey,
+  loadScheduleState,
+  normalizeAgentNextRun,
+  saveScheduleState,
+  type ScheduleState,
+  type ScheduleTrigger,
+} from '@/lib/scheduler'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ScheduledRunResult {
+  success: boolean
+  /** `next_scheduled_run` from the agent's PeriodicResponse, if any */
+  agentNextRun?: string | null
+}
+
+interface UseCleanupSchedulerOptions {
+  accountId: string
+  settings: CleanupSettings
+  onRun: (trigger: ScheduleTrigger) => Promise<ScheduledRunResult>
+  /** Another cleanup is in progress; a due run waits for the next tick */
+  busy?: boolean
+  /** Hold a run that is already overdue on start, e.g. after switching accounts */
+  holdOverdue?: boolean
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const TICK_INTERVAL_MS = 30 * 1000
+
+/** Runs overdue by more than this were missed rather than just reached */
+const CATCH_UP_THRESHOLD_MS = 2 * TICK_INTERVAL_MS
+
+// =============================================================================
+// useCleanupScheduler Hook
+// =============================================================================
+
+export function useCleanupScheduler({
+  accountId,
+  settings,
+  onRun,
+  busy = false,
+  holdOverdue = false
+}: UseCleanupSchedulerOptions) {
+  const [schedule, setSchedule] = useState<ScheduleState>(() => loadScheduleState(accountId))
+  const [running, setRunning] = useState(false)
+  // An overdue run held until the user starts or skips it
+  const [pending, setPending] = useState(false)
+
+  // Keep the latest callbacks without restarting the timer on every render
+  const onRunRef = useRef(onRun)
+  onRunRef.current = onRun
+  const settingsRef = useRef(settings)
+  settingsRef.current = settings
+  const runningRef = useRef(false)
+  const busyRef = useRef(busy)
+  busyRef.current = busy
+  // Cleared once the run that was overdue on start is run, skipped or replaced
+  const holdRef = useRef(holdOverdue)
+
+  const commit = useCallback((next: ScheduleState) => {
+    saveScheduleState(next, accountId)
+    setSchedule(next)
+  }, [accountId])
+
+  const tick = useCallback(async () => {
+    if (runningRef.current) return
+
+    const now = new Date()
+    const current = settingsRef.current
+    const scheduleKey = getScheduleKey(current)
+    let state = loadScheduleState(accountId)
+
+    if (!scheduleKey) {
+      if (state.nextRunAt || state.scheduleKey) {
+        commit({ ...state, nextRunAt: null, scheduleKey: null })
+      } else {
+        setSchedule(state)
+      }
+      return
+    }
+
+    // Schedule changed since the stored run was computed - start over
+    if (state.scheduleKey !== scheduleKey || !state.nextRunAt) {
+      holdRef.current = false
+      setPending(false)
+      const nextRun = computeNextRun(current, now, state.lastRunAt)
+      commit({ ...state, scheduleKey, nextRunAt: nextRun ? nextRun.toISOString() : null })
+      return
+    }
+
+    if (!isRunOverdue(state, now)) {
+      holdRef.current = false
+      setPending(false)
+      setSchedule(state)
+      return
+    }
+
+    if (holdRef.current) {
+      setPending(true)
+      setSchedule(state)
+      return
+    }
+
+    if (isRunClaimed(state, now) || busyRef.current) {
+      setSchedule(state)
+      return
+    }
+
+    const overdueMs = now.getTime() - new Date(state.nextRunAt).getTime()
+    const trigger: ScheduleTrigger = overdueMs > CATCH_UP_THRESHOLD_MS ? 'catch-up' : 'scheduled'
+
+    state = { ...state, runClaimedAt: now.toISOString() }
+    commit(state)
+    runningRef.current = true
+    setRunning(true)
+
+    let result: ScheduledRunResult
+    try {
+      result = await onRunRef.current(trigger)
+    } catch (e) {
+      console.error('Scheduled cleanup failed:', e)
+      result = { success: false }
+    }
+
+    const finishedAt = new Date()
+    const nextRun = computeNextRun(settingsRef.current, finishedAt, now.toISOString())
+    commit({
+      ...loadScheduleState(accountId),
+      lastRunAt: now.toISOString(),
+      lastRunStatus: result.success ? 'success' : 'error',
+      nextRunAt: nextRun ? nextRun.toISOString() : null,
+      agentNextRunAt: normalizeAgentNextRun(result.agentNextRun, finishedAt),
+      runClaimedAt: null,
+      scheduleKey: getScheduleKey(settingsRef.current),
+    })
+
+    runningRef.current = false
+    setRunning(false)
+  }, [commit, accountId])
+
+  // Re-evaluate immediately when the schedule fields change or another
+  // cleanup finishes, then poll
+  useEffect(() => {
+    tick()
+    const interval = setInterval(tick, TICK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [tick, busy, settings.scheduleEnabled, settings.frequency, settings.scheduleTime])
+
+  /** Start the held run */
+  const runPending = useCallback(() => {
+    holdRef.current = false
+    setPending(false)
+    tick()
+  }, [tick])
+
+  /** Drop the held run; the next one is due as if it had run now */
+  const skipPending = useCallback(() => {
+    holdRef.current = false
+    setPending(false)
+    const now = new Date()
+    const nextRun = computeNextRun(settingsRef.current, now, now.toISOString())
+    const state = loadScheduleState(accountId)
+    commit({ ...state, nextRunAt: nextRun ? nextRun.toISOString() : null })
+  }, [commit, accountId])
+
+  // Reflect runs fired from other tabs
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (isScheduleStorageKey(e.key, accountId)) setSchedule(loadScheduleState(accountId))
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }, [accountId])
+
+  return {
+    schedule,
+    running,
+    pending,
+    runPending,
+    skipPending,
+    drift: hasScheduleDrift(schedule),
+  }
+}
+
+export default useCleanupScheduler
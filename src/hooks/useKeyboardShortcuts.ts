@@ -0,0 +1,97 @@
+/**
+ * useKeyboardShortcuts Hook
+ *
+ * Runs the handler of the action bound to each key press, and holds the
+ * user's bindings. Shortcuts without Cmd/Ctrl are ignored while typing in
+ * a field, so they never swallow text.
+ *
+ * @example
+ * ```tsx
+ * const { bindings, setBinding } = useKeyboardShortcuts({
+ *   openPalette: () => setPaletteOpen(open => !open),
+ *   runCleanup: runCleanupNow,
+ * })
+ * ```
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  findBindingOwner,
+  loadShortcuts,
+  matchesBinding,
+  saveShortcuts,
+  worksWhileTyping,
+  type ShortcutActionId,
+  type ShortcutBindings,
+} from '@/lib/shortcuts'
+
+export type ShortcutHandlers = Partial<Record<ShortcutActionId, () => void>>
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadShortcuts)
+
+  // Handlers change every render; the listener always calls the latest
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+  const bindingsRef = useRef(bindings)
+  bindingsRef.current = bindings
+
+  useEffect(() => {
+    saveShortcuts(bindings)
+  }, [bindings])
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return
+      const typing = isTypingTarget(event.target)
+
+      for (const action of SHORTCUT_ACTIONS) {
+        const binding = bindingsRef.current[action.id]
+        if (!matchesBinding(event, binding)) continue
+        if (typing && !worksWhileTyping(binding)) return
+        const handler = handlersRef.current[action.id]
+        if (!handler) return
+        event.preventDefault()
+        handler()
+        return
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  /**
+   * Bind an action, taking the binding away from any action that had it.
+   * Returns that action so the caller can say what was unbound.
+   */
+  const setBinding = useCallback((actionId: ShortcutActionId, binding: string | null) => {
+    const owner = binding ? findBindingOwner(bindingsRef.current, binding) : null
+    const displaced = owner && owner !== actionId ? owner : null
+    setBindings(prev => ({
+      ...prev,
+      ...(displaced ? { [displaced]: null } : {}),
+      [actionId]: binding,
+    }))
+    return displaced
+  }, [])
+
+  const resetBindings = useCallback(() => {
+    setBindings(DEFAULT_SHORTCUTS)
+  }, [])
+
+  return {
+    bindings,
+    setBinding,
+    resetBindings,
+  }
+}
+
+export default useKeyboardShortcuts
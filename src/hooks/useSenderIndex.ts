@@ -0,0 +1,45 @@
+/**
+ * useSenderIndex Hook
+ *
+ * Holds the persisted sender index and adds every email preview passed
+ * to `recordEmails`. Emails already indexed are ignored, so the same
+ * preview can be recorded any number of times.
+ *
+ * @example
+ * ```tsx
+ * const { index, recordEmails } = useSenderIndex(accountId)
+ *
+ * useEffect(() => {
+ *   recordEmails(emailPreviews)
+ * }, [emailPreviews, recordEmails])
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { EmailPreview } from '@/types'
+import { indexEmails, loadSenderIndex, saveSenderIndex, type SenderIndex } from '@/lib/sender-index'
+
+export function useSenderIndex(accountId: string) {
+  const [index, setIndex] = useState<SenderIndex>(() => loadSenderIndex(accountId))
+
+  useEffect(() => {
+    saveSenderIndex(index, accountId)
+  }, [index, accountId])
+
+  const recordEmails = useCallback((emails: EmailPreview[]) => {
+    if (emails.length === 0) return
+    setIndex(prev => indexEmails(prev, emails))
+  }, [])
+
+  const clearIndex = useCallback(() => {
+    setIndex({})
+  }, [])
+
+  return {
+    index,
+    recordEmails,
+    clearIndex,
+  }
+}
+
+export default useSenderIndex
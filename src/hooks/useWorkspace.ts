@@ -0,0 +1,93 @@
+/**
+ * useWorkspace Hook
+ *
+ * The state and actions of the active account's workspace. Home owns them
+ * and provides them to the view for the current route, which is loaded
+ * separately, so each view reads what it shows from here.
+ *
+ * @example
+ * ```tsx
+ * const { activityLog, restoreActivity } = useWorkspace()
+ * ```
+ */
+
+import { createContext, useContext, type Dispatch, type SetStateAction } from 'react'
+import type { ActivityLog, ChatThread, CleanupSettings, CriteriaIdentified, EmailPreview } from '@/types'
+import type { DryRunResult } from '@/components/DryRunReport'
+import type { SettingsNotice } from '@/components/SettingsForm'
+import type { ToolActivity } from '@/lib/agent-stream'
+import type { StoredRuleResults } from '@/lib/cleanup-rules'
+import type { ScheduleState } from '@/lib/scheduler'
+import type { SenderIndex } from '@/lib/sender-index'
+import type { WorkspaceTab } from '@/lib/routes'
+
+export interface StreamingReplyState {
+  threadId: string
+  text: string
+  tools: ToolActivity[]
+}
+
+export interface Workspace {
+  showTab: (tab: WorkspaceTab) => void
+  savedSettings: CleanupSettings
+
+  // Dashboard
+  activityLog: ActivityLog[]
+  activityLoading: boolean
+  activityError: string | null
+  restoringEntryId: string | null
+  restoreActivity: (entry: ActivityLog) => void
+  schedule: ScheduleState
+  drift: boolean
+  scheduledRunActive: boolean
+  /** An overdue run is waiting for the user to start it */
+  scheduledRunPending: boolean
+  runCleanupNow: () => void
+  senderIndex: SenderIndex
+  cleanSender: (address: string) => void
+
+  // Chat
+  chatThreads: ChatThread[]
+  activeThread: ChatThread
+  createThread: () => void
+  deleteThread: (threadId: string) => void
+  chatInput: string
+  setChatInput: (input: string) => void
+  sendChatMessage: () => void
+  chatLoading: boolean
+  chatError: string | null
+  /** Set while a chat turn can be stopped */
+  stopChatRequest: (() => void) | null
+  streamingReply: StreamingReplyState | null
+  knownSenders: string[]
+  refineCriteria: (criteria: CriteriaIdentified) => void
+  /** Previews of the active thread that the safelist doesn't protect */
+  selectableEmails: EmailPreview[]
+  selectedEmails: Set<string>
+  setSelectedEmails: Dispatch<SetStateAction<Set<string>>>
+  selectAllEmails: () => void
+  deleteSelectedEmails: () => void
+
+  // Settings and cleanup runs
+  saveSettings: (settings: CleanupSettings) => boolean
+  settingsSaved: boolean
+  setSettingsDirty: (dirty: boolean) => void
+  setSettingsNotice: (notice: SettingsNotice | null) => void
+  testRunCleanup: (settings: CleanupSettings) => void
+  periodicLoading: boolean
+  periodicError: string | null
+  ruleResults: StoredRuleResults | null
+  dryRunReport: DryRunResult | null
+  promoteDryRun: () => void
+  dismissDryRunReport: () => void
+}
+
+export const WorkspaceContext = createContext<Workspace | null>(null)
+
+export function useWorkspace(): Workspace {
+  const workspace = useContext(WorkspaceContext)
+  if (!workspace) {
+    throw new Error('useWorkspace must be used inside the workspace')
+  }
+  return workspace
+}
@@ -0,0 +1,148 @@
+/**
+ * Gmail Accounts
+ *
+ * Keeps the list of mailboxes managed from this browser and scopes every
+ * per-mailbox storage key to one of them. The default account uses the
+ * original unscoped keys, so data saved before accounts existed belongs
+ * to it without a migration.
+ */
+
+import { generateUUID } from '@/utils/aiAgent'
+import type { GmailAccount } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const ACCOUNTS_STORAGE_KEY = 'gmail_accounts'
+const ACTIVE_ACCOUNT_STORAGE_KEY = 'gmail_active_account'
+
+export const DEFAULT_ACCOUNT_ID = 'default'
+
+export const DEFAULT_ACCOUNT: GmailAccount = {
+  id: DEFAULT_ACCOUNT_ID,
+  label: 'Primary mailbox',
+  email: '',
+  createdAt: new Date(0).toISOString(),
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Account reference sent to both agents with every request */
+export interface AgentAccount {
+  account_id: string
+  email: string | null
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Storage key for one account's copy of `key`
+ */
+export function getAccountStorageKey(key: string, accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? key : `${key}:${accountId}`
+}
+
+/**
+ * Stored accounts, always starting with the default one
+ */
+export function loadAccounts(): GmailAccount[] {
+  try {
+    const stored = localStorage.getItem(ACCOUNTS_STORAGE_KEY)
+    const accounts: GmailAccount[] = stored ? JSON.parse(stored) : []
+    const defaultAccount = accounts.find(a => a.id === DEFAULT_ACCOUNT_ID) || DEFAULT_ACCOUNT
+    return [defaultAccount, ...accounts.filter(a => a.id !== DEFAULT_ACCOUNT_ID)]
+  } catch {
+    return [DEFAULT_ACCOUNT]
+  }
+}
+
+export function saveAccounts(accounts: GmailAccount[]) {
+  try {
+    localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts))
+  } catch (e) {
+    console.error('Failed to save accounts:', e)
+  }
+}
+
+export function loadActiveAccountId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_ACCOUNT_STORAGE_KEY) || DEFAULT_ACCOUNT_ID
+  } catch {
+    return DEFAULT_ACCOUNT_ID
+  }
+}
+
+export function saveActiveAccountId(accountId: string) {
+  try {
+    localStorage.setItem(ACTIVE_ACCOUNT_STORAGE_KEY, accountId)
+  } catch (e) {
+    console.error('Failed to save active account:', e)
+  }
+}
+
+/**
+ * Remove every localStorage entry scoped to an account. Its activity
+ * history stays in IndexedDB as an audit trail.
+ */
+export function clearAccountStorage(accountId: string) {
+  if (accountId === DEFAULT_ACCOUNT_ID) return
+  try {
+    const suffix = `:${accountId}`
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    for (const key of keys) {
+      if (key?.endsWith(suffix)) localStorage.removeItem(key)
+    }
+  } catch (e) {
+    console.error('Failed to clear account storage:', e)
+  }
+}
+
+// =============================================================================
+// Account Helpers
+// =============================================================================
+
+export function createAccount(label: string, email: string): GmailAccount {
+  const address = email.trim().toLowerCase()
+  return {
+    id: generateUUID(),
+    label: label.trim() || address,
+    email: address,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Why an address cannot be added, or null when it can
+ */
+export function getAccountEmailError(email: string, accounts: GmailAccount[]): string | null {
+  const address = email.trim().toLowerCase()
+  if (!address) return 'Enter the Gmail address'
+  if (!EMAIL_PATTERN.test(address)) return 'Enter a valid email address'
+  if (accounts.some(a => a.email === address)) return 'This mailbox is already added'
+  return null
+}
+
+export function getAccountDisplayName(account: GmailAccount): string {
+  return account.label || account.email || 'Unnamed mailbox'
+}
+
+export function toAgentAccount(account: GmailAccount): AgentAccount {
+  return {
+    account_id: account.id,
+    email: account.email || null,
+  }
+}
+
+/**
+ * Tell the cleaner bot which mailbox a chat message is about
+ */
+export function withAccountContext(message: string, account: GmailAccount): string {
+  return `${message}\n\nGmail account (only act on this mailbox): ${JSON.stringify(toAgentAccount(account))}`
+}
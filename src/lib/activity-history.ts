@@ -0,0 +1,236 @@
+/**
+ * Activity History Storage
+ *
+ * Keeps every cleanup run in IndexedDB with the agent's full result, so
+ * the history is not capped by localStorage quota. Entries from the old
+ * localStorage log are imported once when the database is created.
+ */
+
+import { generateUUID } from '@/utils/aiAgent'
+import { DEFAULT_ACCOUNT_ID } from '@/lib/accounts'
+import type { ActivityLog, ActivitySource, ActivityStatus } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'gmail_cleaner'
+const DB_VERSION = 1
+const ACTIVITY_STORE = 'activity'
+
+/** The capped log used before the history moved to IndexedDB */
+const LEGACY_STORAGE_KEY = 'gmail_activity_log'
+
+/** Tells other tabs to reload after an entry is added */
+export const ACTIVITY_CHANNEL = 'gmail_activity_history'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type NewActivityEntry = Omit<ActivityLog, 'id' | 'timestamp'>
+
+export interface ActivityFilters {
+  query: string
+  status: ActivityStatus | 'all'
+  source: ActivitySource | 'all'
+  /** Inclusive local dates as YYYY-MM-DD, empty for no bound */
+  from: string
+  to: string
+}
+
+export const DEFAULT_ACTIVITY_FILTERS: ActivityFilters = {
+  query: '',
+  status: 'all',
+  source: 'all',
+  from: '',
+  to: '',
+}
+
+// =============================================================================
+// Database
+// =============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function loadLegacyLog(): ActivityLog[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Best guess at where an old entry came from, based on its action label
+ */
+function inferLegacySource(action: string): ActivitySource | undefined {
+  if (/^test run/i.test(action)) return 'test'
+  if (/^(automatic|missed scheduled) cleanup/i.test(action)) return 'scheduled'
+  if (/^scheduled cleanup/i.test(action)) return 'manual'
+  if (/^(chat cleanup|deleted|confirmed deletion|cancelled deletion)/i.test(action)) return 'chat'
+  return undefined
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const store = db.createObjectStore(ACTIVITY_STORE, { keyPath: 'id' })
+      store.createIndex('timestamp', 'timestamp')
+
+      // Old entries used Date.now() ids that can collide, so they get new ones
+      for (const entry of loadLegacyLog()) {
+        store.put({ ...entry, id: generateUUID(), source: entry.source || inferLegacySource(entry.action) })
+      }
+      request.transaction.oncomplete = () => {
+        try {
+          localStorage.removeItem(LEGACY_STORAGE_KEY)
+        } catch {
+          // The copy in IndexedDB is what counts
+        }
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  // Allow a later call to retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+  return dbPromise
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function createActivityEntry(fields: NewActivityEntry): ActivityLog {
+  return {
+    id: generateUUID(),
+    timestamp: new Date().toISOString(),
+    ...fields,
+  }
+}
+
+/**
+ * All entries of one account, newest first. Entries recorded before
+ * accounts existed belong to the default account.
+ */
+export async function loadActivityHistory(accountId: string): Promise<ActivityLog[]> {
+  const db = await openDatabase()
+  const store = db.transaction(ACTIVITY_STORE, 'readonly').objectStore(ACTIVITY_STORE)
+  const entries = await requestToPromise(store.getAll() as IDBRequest<ActivityLog[]>)
+  return sortActivity(entries.filter(entry => (entry.accountId || DEFAULT_ACCOUNT_ID) === accountId))
+}
+
+export async function saveActivityEntry(entry: ActivityLog): Promise<void> {
+  const db = await openDatabase()
+  const store = db.transaction(ACTIVITY_STORE, 'readwrite').objectStore(ACTIVITY_STORE)
+  await requestToPromise(store.put(entry))
+}
+
+export function sortActivity(entries: ActivityLog[]): ActivityLog[] {
+  return [...entries].sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+function startOfLocalDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime()
+}
+
+function getSearchText(entry: ActivityLog): string {
+  return [
+    entry.action,
+    entry.source,
+    entry.status,
+    ...(entry.errors || []),
+    ...(entry.deletedIds || []),
+    entry.criteria ? JSON.stringify(entry.criteria) : '',
+  ].join(' ').toLowerCase()
+}
+
+export function filterActivity(entries: ActivityLog[], filters: ActivityFilters): ActivityLog[] {
+  const query = filters.query.trim().toLowerCase()
+  const from = filters.from ? startOfLocalDay(filters.from) : null
+  // `to` is inclusive, so compare against the start of the following day
+  const to = filters.to ? startOfLocalDay(filters.to) + 24 * 60 * 60 * 1000 : null
+
+  return entries.filter(entry => {
+    if (filters.status !== 'all' && entry.status !== filters.status) return false
+    if (filters.source !== 'all' && entry.source !== filters.source) return false
+
+    const time = new Date(entry.timestamp).getTime()
+    if (from !== null && time < from) return false
+    if (to !== null && time >= to) return false
+
+    return !query || getSearchText(entry).includes(query)
+  })
+}
+
+export function hasActiveFilters(filters: ActivityFilters): boolean {
+  return (Object.keys(DEFAULT_ACTIVITY_FILTERS) as (keyof ActivityFilters)[])
+    .some(key => filters[key] !== DEFAULT_ACTIVITY_FILTERS[key])
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'source',
+  'status',
+  'action',
+  'emails_deleted',
+  'deleted_ids',
+  'errors',
+  'criteria',
+] as const
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toActivityCsv(entries: ActivityLog[]): string {
+  const rows = entries.map(entry => [
+    entry.id,
+    entry.timestamp,
+    entry.source || '',
+    entry.status,
+    entry.action,
+    String(entry.emailsDeleted),
+    (entry.deletedIds || []).join(' '),
+    (entry.errors || []).join('; '),
+    entry.criteria ? JSON.stringify(entry.criteria) : '',
+  ].map(escapeCsv).join(','))
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n')
+}
+
+export function toActivityJson(entries: ActivityLog[]): string {
+  return JSON.stringify(entries, null, 2)
+}
@@ -0,0 +1,224 @@
+/**
+ * Activity Statistics
+ *
+ * Aggregates the activity history into the series shown on the dashboard
+ * charts: deletions over time split by source, deletions by category or
+ * rule, and the failure rate of runs.
+ */
+
+import type { ActivityLog, CriteriaIdentified, PeriodicResponse } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type StatsRange = '7d' | '30d' | '90d' | 'all'
+
+export type StatsGranularity = 'day' | 'week'
+
+export interface TimeBucket {
+  /** Local start of the bucket as YYYY-MM-DD */
+  key: string
+  label: string
+  chat: number
+  scheduled: number
+  runs: number
+  failures: number
+  /** Failed runs as a percentage, null when there were no runs */
+  failureRate: number | null
+}
+
+export interface BreakdownItem {
+  name: string
+  deleted: number
+}
+
+export interface SourceSplit {
+  chat: number
+  scheduled: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const STATS_RANGES: { range: StatsRange; label: string }[] = [
+  { range: '7d', label: 'Last 7 days' },
+  { range: '30d', label: 'Last 30 days' },
+  { range: '90d', label: 'Last 90 days' },
+  { range: 'all', label: 'All time' },
+]
+
+const RANGE_DAYS: Record<Exclude<StatsRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Breakdown entries beyond this are grouped as "Other" */
+const MAX_BREAKDOWN_ITEMS = 8
+
+// =============================================================================
+// Date Helpers
+// =============================================================================
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/** Weeks start on Monday */
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date)
+  const offset = (day.getDay() + 6) % 7
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - offset)
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function formatBucketLabel(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+/**
+ * First moment included in the range, or null for all time
+ */
+export function getRangeStart(range: StatsRange, now: Date = new Date()): Date | null {
+  if (range === 'all') return null
+  return new Date(startOfDay(now).getTime() - (RANGE_DAYS[range] - 1) * DAY_MS)
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Periodic runs count as scheduled whether the scheduler or the user
+ * started them; dry runs and old entries without a source are excluded
+ */
+function isScheduledSource(entry: ActivityLog): boolean {
+  return entry.source === 'scheduled' || entry.source === 'manual'
+}
+
+function countsAsRun(entry: ActivityLog): boolean {
+  return entry.status !== 'cancelled' && entry.source !== 'test'
+}
+
+export function filterByRange(entries: ActivityLog[], range: StatsRange, now: Date = new Date()): ActivityLog[] {
+  const start = getRangeStart(range, now)
+  if (!start) return entries
+  return entries.filter(entry => new Date(entry.timestamp) >= start)
+}
+
+export function getTimeSeries(
+  entries: ActivityLog[],
+  range: StatsRange,
+  granularity: StatsGranularity,
+  now: Date = new Date()
+): TimeBucket[] {
+  const bucketStart = granularity === 'week' ? startOfWeek : startOfDay
+  const earliest = entries.reduce<Date | null>((min, entry) => {
+    const date = new Date(entry.timestamp)
+    return !min || date < min ? date : min
+  }, null)
+
+  const rangeStart = getRangeStart(range, now) || earliest
+  if (!rangeStart) return []
+
+  // Every bucket in the range, so gaps show as zero instead of disappearing
+  const buckets = new Map<string, TimeBucket>()
+  for (let cursor = bucketStart(rangeStart); cursor <= now;) {
+    const key = toDateKey(cursor)
+    buckets.set(key, {
+      key,
+      label: formatBucketLabel(cursor),
+      chat: 0,
+      scheduled: 0,
+      runs: 0,
+      failures: 0,
+      failureRate: null,
+    })
+    cursor = granularity === 'week'
+      ? new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 7)
+      : new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)
+  }
+
+  for (const entry of entries) {
+    const bucket = buckets.get(toDateKey(bucketStart(new Date(entry.timestamp))))
+    if (!bucket) continue
+
+    if (entry.status === 'success') {
+      if (entry.source === 'chat') bucket.chat += entry.emailsDeleted
+      else if (isScheduledSource(entry)) bucket.scheduled += entry.emailsDeleted
+    }
+    if (countsAsRun(entry)) {
+      bucket.runs += 1
+      if (entry.status === 'error') bucket.failures += 1
+    }
+  }
+
+  return [...buckets.values()].map(bucket => ({
+    ...bucket,
+    failureRate: bucket.runs > 0 ? Math.round((bucket.failures / bucket.runs) * 100) : null,
+  }))
+}
+
+/**
+ * Deletions per chat category or periodic rule
+ */
+export function getBreakdown(entries: ActivityLog[]): BreakdownItem[] {
+  const totals = new Map<string, number>()
+  const add = (name: string, deleted: number) => {
+    if (deleted > 0) totals.set(name, (totals.get(name) || 0) + deleted)
+  }
+
+  for (const entry of entries) {
+    if (entry.status !== 'success' || entry.source === 'test') continue
+
+    if (entry.source === 'chat') {
+      const category = (entry.criteria as CriteriaIdentified | undefined)?.category
+      add(category ? `Chat: ${category}` : 'Chat: other', entry.emailsDeleted)
+      continue
+    }
+
+    const rules = (entry.response as PeriodicResponse | undefined)?.rules_results
+    if (Array.isArray(rules) && rules.length > 0) {
+      for (const rule of rules) add(rule.rule_name || rule.rule_type || 'Unnamed rule', rule.emails_deleted || 0)
+    } else {
+      add('Uncategorized', entry.emailsDeleted)
+    }
+  }
+
+  const sorted = [...totals.entries()]
+    .map(([name, deleted]) => ({ name, deleted }))
+    .sort((a, b) => b.deleted - a.deleted)
+
+  if (sorted.length <= MAX_BREAKDOWN_ITEMS) return sorted
+
+  const top = sorted.slice(0, MAX_BREAKDOWN_ITEMS - 1)
+  const other = sorted.slice(MAX_BREAKDOWN_ITEMS - 1).reduce((sum, item) => sum + item.deleted, 0)
+  return [...top, { name: 'Other', deleted: other }]
+}
+
+export function getSourceSplit(entries: ActivityLog[]): SourceSplit {
+  return entries.reduce<SourceSplit>((split, entry) => {
+    if (entry.status !== 'success') return split
+    if (entry.source === 'chat') split.chat += entry.emailsDeleted
+    else if (isScheduledSource(entry)) split.scheduled += entry.emailsDeleted
+    return split
+  }, { chat: 0, scheduled: 0 })
+}
+
+/**
+ * Failed runs as a percentage of all runs, or null with no runs
+ */
+export function getFailureRate(entries: ActivityLog[]): number | null {
+  const runs = entries.filter(countsAsRun)
+  if (runs.length === 0) return null
+  return Math.round((runs.filter(entry => entry.status === 'error').length / runs.length) * 100)
+}
@@ -0,0 +1,132 @@
+/**
+ * Agent Health
+ *
+ * Checks that the agents in workflow.json can be reached, and folds in
+ * problems only a real run reveals, such as a Gmail tool missing from
+ * the agent. Drives the live status shown in the header.
+ */
+
+import workflow from '../../workflow.json'
+import { isApiKeyConfigured } from '@/utils/aiAgent'
+import { pingAgentWithDetails } from '@/utils/agent_response_tester'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const HEALTH_CHECK_INTERVAL_MS = 60 * 1000
+
+const PING_TIMEOUT_MS = 10 * 1000
+
+/** Pings slower than this still work but are reported as degraded */
+const SLOW_RESPONSE_MS = 5 * 1000
+
+const TOOL_FAILURE_PATTERN = /\b(not available|unavailable|not found|not enabled|not connected|missing)\b/i
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AgentHealthStatus = 'unknown' | 'healthy' | 'degraded' | 'down' | 'unconfigured'
+
+export interface HealthAgent {
+  agentId: string
+  name: string
+  tools: string[]
+}
+
+export interface AgentHealth {
+  agentId: string
+  name: string
+  status: AgentHealthStatus
+  /** ISO time of the last completed check */
+  lastCheckedAt: string | null
+  /** Why the agent is not healthy, null when it is */
+  reason: string | null
+  responseTimeMs: number | null
+  /** Tool errors from the agent's last run, cleared by a clean run */
+  toolErrors: string[]
+}
+
+export const HEALTH_STATUS_LABELS: Record<AgentHealthStatus, string> = {
+  unknown: 'Checking',
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Unreachable',
+  unconfigured: 'Not configured',
+}
+
+/** Agents from workflow.json, in workflow order */
+export const HEALTH_AGENTS: HealthAgent[] = workflow.agents.map(agent => ({
+  agentId: agent.agent_id,
+  name: agent.name,
+  tools: agent.tools,
+}))
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+export function createInitialHealth(agent: HealthAgent): AgentHealth {
+  return {
+    agentId: agent.agentId,
+    name: agent.name,
+    status: 'unknown',
+    lastCheckedAt: null,
+    reason: null,
+    responseTimeMs: null,
+    toolErrors: [],
+  }
+}
+
+/**
+ * Errors that mean the agent cannot use one of its Gmail tools, e.g.
+ * "GMAIL_FETCH_EMAILS tool not available"
+ */
+export function detectToolErrors(errors: unknown, tools: string[] = []): string[] {
+  if (!Array.isArray(errors)) return []
+  return errors
+    .filter((error): error is string => typeof error === 'string')
+    .filter(error => TOOL_FAILURE_PATTERN.test(error) &&
+      (/\btool\b/i.test(error) || tools.some(tool => error.includes(tool)))
+    )
+}
+
+/**
+ * Status from the ping alone; tool errors are applied on top with
+ * applyToolErrors, so a clean run can clear them without a new ping
+ */
+export async function checkAgentHealth(agent: HealthAgent, previous: AgentHealth): Promise<AgentHealth> {
+  const checkedAt = new Date().toISOString()
+
+  if (!isApiKeyConfigured()) {
+    return {
+      ...previous,
+      status: 'unconfigured',
+      lastCheckedAt: checkedAt,
+      reason: 'VITE_LYZR_API_KEY is not set, so every agent call will fail',
+      responseTimeMs: null,
+    }
+  }
+
+  const ping = await pingAgentWithDetails(agent.agentId, PING_TIMEOUT_MS)
+  return {
+    ...previous,
+    status: !ping.reachable ? 'down' : ping.responseTimeMs > SLOW_RESPONSE_MS ? 'degraded' : 'healthy',
+    lastCheckedAt: checkedAt,
+    reason: !ping.reachable
+      ? ping.error || 'Agent did not respond'
+      : ping.responseTimeMs > SLOW_RESPONSE_MS ? `Slow response (${(ping.responseTimeMs / 1000).toFixed(1)}s)` : null,
+    responseTimeMs: ping.responseTimeMs,
+  }
+}
+
+/**
+ * A reachable agent with tool errors is degraded, with the first error as reason
+ */
+export function applyToolErrors(health: AgentHealth): AgentHealth {
+  if (health.toolErrors.length === 0 || health.status === 'down' || health.status === 'unconfigured') {
+    return health
+  }
+  return { ...health, status: 'degraded', reason: health.toolErrors[0] }
+}
@@ -0,0 +1,122 @@
+/**
+ * Agent Stream
+ *
+ * Helpers for reading a streamed agent reply: cutting the body into
+ * complete SSE events as chunks arrive, following tool calls as they start
+ * and finish, and pulling the readable message out of a JSON reply that is
+ * only partly written.
+ */
+
+import type { SSEEvent } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ToolActivityStatus = 'running' | 'done' | 'failed' | 'blocked'
+
+export interface ToolActivity {
+  /** tool_use_id, or the tool name when the server sent none */
+  id: string
+  toolName: string
+  status: ToolActivityStatus
+  /** Error or block reason */
+  detail?: string
+}
+
+// =============================================================================
+// SSE Buffering
+// =============================================================================
+
+/**
+ * Split buffered stream text into the events that are complete (ended by
+ * a blank line) and the partial event still being received
+ */
+export function splitSSEBuffer(buffer: string): { complete: string; rest: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n')
+  const boundary = normalized.lastIndexOf('\n\n')
+  if (boundary === -1) return { complete: '', rest: normalized }
+  return {
+    complete: normalized.slice(0, boundary + 2),
+    rest: normalized.slice(boundary + 2),
+  }
+}
+
+// =============================================================================
+// Tool Activity
+// =============================================================================
+
+/**
+ * Fold a stream event into the list of tool calls; events that aren't
+ * about tools leave the list as it is
+ */
+export function applyToolEvent(activities: ToolActivity[], event: SSEEvent): ToolActivity[] {
+  const e = event as any
+  const toolName: string | undefined = e.tool_name
+  if (!toolName) return activities
+  const id: string = e.tool_use_id || e._tool_use_id || toolName
+
+  const update = (patch: Omit<ToolActivity, 'id' | 'toolName'>): ToolActivity[] => {
+    const index = activities.findIndex(activity => activity.id === id)
+    const next = { id, toolName, ...patch }
+    if (index === -1) return [...activities, next]
+    return activities.map((activity, i) => (i === index ? next : activity))
+  }
+
+  switch (event.type) {
+    case 'tool_use':
+      return update({ status: 'running' })
+    case 'tool_result':
+      return e.is_error
+        ? update({ status: 'failed', detail: typeof e.content === 'string' ? e.content : undefined })
+        : update({ status: 'done' })
+    case 'tool_error':
+      return update({ status: 'failed', detail: e.error })
+    case 'tool_blocked':
+      return update({ status: 'blocked', detail: e.reason })
+    default:
+      return activities
+  }
+}
+
+// =============================================================================
+// Partial Replies
+// =============================================================================
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+
+/**
+ * The text to show for a reply that is still arriving. Agents that answer
+ * in JSON stream the whole object, so only the `message` field written so
+ * far is shown; plain text replies are shown as they are.
+ */
+export function getStreamingMessage(text: string): string {
+  const trimmed = text.trimStart()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) return text
+
+  const start = trimmed.match(/"message"\s*:\s*"/)
+  if (!start || start.index === undefined) return ''
+
+  let message = ''
+  for (let i = start.index + start[0].length; i < trimmed.length; i++) {
+    const char = trimmed[i]
+    if (char === '"') break
+    if (char !== '\\') {
+      message += char
+      continue
+    }
+    const next = trimmed[i + 1]
+    // The escape itself may not have arrived yet
+    if (next === undefined) break
+    if (next === 'u') {
+      const hex = trimmed.slice(i + 2, i + 6)
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break
+      message += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+    } else {
+      message += ESCAPES[next] ?? next
+      i += 1
+    }
+  }
+  return message
+}
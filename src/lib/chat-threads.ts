@@ -0,0 +1,115 @@
+/**
+ * Chat Thread Storage
+ *
+ * Persists dynamic cleaner bot conversations. Each thread owns the
+ * session_id sent on every turn so the agent keeps context between
+ * messages; the user_id is shared by all threads of one account.
+ */
+
+import { createSessionId, createUserId, generateUUID } from '@/utils/aiAgent'
+import { getAccountStorageKey } from '@/lib/accounts'
+import type { ChatThread } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const THREADS_STORAGE_KEY = 'gmail_chat_threads'
+const ACTIVE_THREAD_STORAGE_KEY = 'gmail_active_chat_thread'
+const USER_ID_STORAGE_KEY = 'gmail_chat_user_id'
+
+/** Oldest threads beyond this are dropped to stay within storage quota */
+const MAX_THREADS = 30
+
+const DEFAULT_THREAD_TITLE = 'New conversation'
+const TITLE_MAX_LENGTH = 40
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function loadChatThreads(accountId: string): ChatThread[] {
+  try {
+    const stored = localStorage.getItem(getAccountStorageKey(THREADS_STORAGE_KEY, accountId))
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveChatThreads(threads: ChatThread[], accountId: string) {
+  try {
+    localStorage.setItem(getAccountStorageKey(THREADS_STORAGE_KEY, accountId), JSON.stringify(threads.slice(0, MAX_THREADS)))
+  } catch (e) {
+    console.error('Failed to save chat threads:', e)
+  }
+}
+
+export function loadActiveThreadId(accountId: string): string | null {
+  try {
+    return localStorage.getItem(getAccountStorageKey(ACTIVE_THREAD_STORAGE_KEY, accountId))
+  } catch {
+    return null
+  }
+}
+
+export function saveActiveThreadId(threadId: string, accountId: string) {
+  try {
+    localStorage.setItem(getAccountStorageKey(ACTIVE_THREAD_STORAGE_KEY, accountId), threadId)
+  } catch (e) {
+    console.error('Failed to save active chat thread:', e)
+  }
+}
+
+/**
+ * Stable user_id for an account in this browser, created on first use
+ */
+export function getChatUserId(accountId: string): string {
+  const key = getAccountStorageKey(USER_ID_STORAGE_KEY, accountId)
+  try {
+    const stored = localStorage.getItem(key)
+    if (stored) return stored
+    const userId = createUserId()
+    localStorage.setItem(key, userId)
+    return userId
+  } catch {
+    return createUserId()
+  }
+}
+
+// =============================================================================
+// Thread Helpers
+// =============================================================================
+
+export function createChatThread(agentId: string, accountId: string): ChatThread {
+  const now = new Date().toISOString()
+  return {
+    id: generateUUID(),
+    title: DEFAULT_THREAD_TITLE,
+    agentId,
+    sessionId: createSessionId(agentId),
+    userId: getChatUserId(accountId),
+    chatMessages: [],
+    emailPreviews: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Title a thread after its first user message
+ */
+export function deriveThreadTitle(thread: ChatThread): string {
+  const firstUserMessage = thread.chatMessages.find(msg => msg.role === 'user')
+  if (!firstUserMessage) return DEFAULT_THREAD_TITLE
+
+  const text = firstUserMessage.content.trim()
+  return text.length > TITLE_MAX_LENGTH ? `${text.substring(0, TITLE_MAX_LENGTH - 1)}…` : text
+}
+
+/**
+ * Most recently updated threads first
+ */
+export function sortThreads(threads: ChatThread[]): ChatThread[] {
+  return [...threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
@@ -0,0 +1,244 @@
+/**
+ * Cleanup Rule Helpers
+ *
+ * Creates and edits user-defined cleanup rules, converts them into the
+ * form sent to the Periodic Cleaner Agent, and maps the agent's
+ * per-rule results back onto the rules by name.
+ */
+
+import { generateUUID } from '@/utils/aiAgent'
+import { getAccountStorageKey } from '@/lib/accounts'
+import type {
+  CleanupRule,
+  RuleAction,
+  RuleCondition,
+  RuleConditionType,
+  RuleResult,
+} from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const CONDITION_TYPES: { type: RuleConditionType; label: string; placeholder: string }[] = [
+  { type: 'sender', label: 'Sender', placeholder: 'news@example.com' },
+  { type: 'domain', label: 'Domain', placeholder: 'example.com' },
+  { type: 'category', label: 'Gmail category', placeholder: '' },
+  { type: 'label', label: 'Label', placeholder: 'Receipts' },
+  { type: 'older_than_days', label: 'Older than (days)', placeholder: '30' },
+  { type: 'keyword', label: 'Keyword', placeholder: 'unsubscribe' },
+  { type: 'has_attachment', label: 'Has attachment', placeholder: '' },
+  { type: 'larger_than_mb', label: 'Larger than (MB)', placeholder: '5' },
+]
+
+export const GMAIL_CATEGORIES = ['promotions', 'social', 'updates', 'forums', 'primary'] as const
+
+export const RULE_ACTIONS: { action: RuleAction; label: string }[] = [
+  { action: 'delete', label: 'Delete' },
+  { action: 'archive', label: 'Archive' },
+  { action: 'mark_read', label: 'Mark as read' },
+]
+
+const NUMERIC_CONDITIONS: RuleConditionType[] = ['older_than_days', 'larger_than_mb']
+
+const RULE_RESULTS_STORAGE_KEY = 'gmail_rule_results'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Rule as sent to the agent, with typed condition values
+ */
+export interface AgentRule {
+  name: string
+  action: RuleAction
+  match: 'all' | 'any'
+  conditions: { type: RuleConditionType; value: string | number | boolean }[]
+  /** Equivalent Gmail search, so the agent can pass it to GMAIL_FETCH_EMAILS */
+  gmail_query: string
+}
+
+/**
+ * Per-rule results of the most recent periodic or dry run
+ */
+export interface StoredRuleResults {
+  results: RuleResult[]
+  timestamp: string
+  dryRun: boolean
+}
+
+// =============================================================================
+// Creation and Editing
+// =============================================================================
+
+export function getDefaultConditionValue(type: RuleConditionType): string {
+  if (type === 'category') return 'promotions'
+  if (type === 'has_attachment') return 'true'
+  if (type === 'older_than_days') return '30'
+  if (type === 'larger_than_mb') return '5'
+  return ''
+}
+
+export function createCondition(type: RuleConditionType = 'sender'): RuleCondition {
+  return { id: generateUUID(), type, value: getDefaultConditionValue(type) }
+}
+
+export function createRule(existing: CleanupRule[] = []): CleanupRule {
+  return {
+    id: generateUUID(),
+    name: `Custom rule ${existing.length + 1}`,
+    enabled: true,
+    match: 'all',
+    conditions: [createCondition('sender')],
+    action: 'delete',
+  }
+}
+
+/**
+ * Move the rule at `index` up (-1) or down (+1)
+ */
+export function moveRule(rules: CleanupRule[], index: number, delta: number): CleanupRule[] {
+  const target = index + delta
+  if (target < 0 || target >= rules.length) return rules
+
+  const next = [...rules]
+  const [rule] = next.splice(index, 1)
+  next.splice(target, 0, rule)
+  return next
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export function getConditionError(condition: RuleCondition): string | null {
+  const value = condition.value.trim()
+
+  if (condition.type === 'has_attachment') return null
+  if (!value) return 'Value is required'
+
+  if (NUMERIC_CONDITIONS.includes(condition.type)) {
+    const number = Number(value)
+    if (!Number.isFinite(number) || number <= 0) return 'Must be a positive number'
+  }
+
+  if (condition.type === 'domain' && !/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(value.replace(/^@/, ''))) {
+    return 'Enter a domain like example.com'
+  }
+
+  return null
+}
+
+export function getRuleErrors(rule: CleanupRule, rules: CleanupRule[]): string[] {
+  const errors: string[] = []
+  const name = rule.name.trim()
+
+  if (!name) errors.push('Rule name is required')
+  if (name && rules.some(r => r.id !== rule.id && r.name.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push('Rule names must be unique so results can be matched')
+  }
+  if (rule.conditions.length === 0) errors.push('Add at least one condition')
+  if (rule.conditions.some(c => getConditionError(c) !== null)) errors.push('Fix the invalid conditions')
+
+  return errors
+}
+
+// =============================================================================
+// Agent Conversion
+// =============================================================================
+
+function parseConditionValue(condition: RuleCondition): string | number | boolean {
+  if (condition.type === 'has_attachment') return condition.value !== 'false'
+  if (NUMERIC_CONDITIONS.includes(condition.type)) return Number(condition.value)
+  return condition.value.trim()
+}
+
+function quoteTerm(value: string): string {
+  return /\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+}
+
+function toGmailTerm(condition: RuleCondition): string {
+  const value = condition.value.trim()
+
+  switch (condition.type) {
+    case 'sender':
+      return `from:${quoteTerm(value)}`
+    case 'domain':
+      return `from:${quoteTerm(value.replace(/^@/, ''))}`
+    case 'category':
+      return `category:${value}`
+    case 'label':
+      return `label:${quoteTerm(value)}`
+    case 'older_than_days':
+      return `older_than:${Number(value)}d`
+    case 'keyword':
+      return quoteTerm(value)
+    case 'has_attachment':
+      return condition.value === 'false' ? '-has:attachment' : 'has:attachment'
+    case 'larger_than_mb':
+      return `larger:${Number(value)}M`
+  }
+}
+
+export function toGmailQuery(rule: CleanupRule): string {
+  const terms = rule.conditions.map(toGmailTerm)
+  if (rule.match === 'any' && terms.length > 1) return `{${terms.join(' ')}}`
+  return terms.join(' ')
+}
+
+/**
+ * Enabled, valid rules in execution order, ready to send to the agent
+ */
+export function toAgentRules(rules: CleanupRule[]): AgentRule[] {
+  return rules
+    .filter(rule => rule.enabled && getRuleErrors(rule, rules).length === 0)
+    .map(rule => ({
+      name: rule.name.trim(),
+      action: rule.action,
+      match: rule.match,
+      conditions: rule.conditions.map(c => ({ type: c.type, value: parseConditionValue(c) })),
+      gmail_query: toGmailQuery(rule),
+    }))
+}
+
+// =============================================================================
+// Result Mapping
+// =============================================================================
+
+export function loadRuleResults(accountId: string): StoredRuleResults | null {
+  try {
+    const stored = localStorage.getItem(getAccountStorageKey(RULE_RESULTS_STORAGE_KEY, accountId))
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveRuleResults(results: StoredRuleResults, accountId: string) {
+  try {
+    localStorage.setItem(getAccountStorageKey(RULE_RESULTS_STORAGE_KEY, accountId), JSON.stringify(results))
+  } catch (e) {
+    console.error('Failed to save rule results:', e)
+  }
+}
+
+/**
+ * Match the agent's rule results to rules by name, case-insensitively
+ */
+export function matchRuleResults(
+  rules: CleanupRule[],
+  results: RuleResult[]
+): Record<string, RuleResult> {
+  const byName = new Map<string, RuleResult>()
+  for (const result of results) {
+    if (result?.rule_name) byName.set(result.rule_name.trim().toLowerCase(), result)
+  }
+
+  const matched: Record<string, RuleResult> = {}
+  for (const rule of rules) {
+    const result = byName.get(rule.name.trim().toLowerCase())
+    if (result) matched[rule.id] = result
+  }
+  return matched
+}
@@ -0,0 +1,43 @@
+/**
+ * Deletion Confirmation Helpers
+ *
+ * Classifies chat messages that would let the dynamic cleaner bot delete
+ * mail, and summarizes a pending deletion for the review dialog.
+ */
+
+import type { EmailPreview } from '@/types'
+
+const DELETE_INTENT_PATTERN = /\b(delete|remove|trash|purge|erase|wipe|get rid of|clean ?up|clear out)\b/i
+
+const AFFIRMATIVE_PATTERN = /^\s*(yes|yep|yeah|y|ok|okay|sure|confirm(ed)?|go ahead|do it|proceed)\b/i
+
+export interface SenderCount {
+  sender: string
+  count: number
+}
+
+/**
+ * Whether a chat message asks the agent to delete emails
+ */
+export function hasDeleteIntent(text: string): boolean {
+  return DELETE_INTENT_PATTERN.test(text)
+}
+
+/**
+ * Whether a chat message answers a confirmation prompt with yes
+ */
+export function isAffirmative(text: string): boolean {
+  return AFFIRMATIVE_PATTERN.test(text)
+}
+
+/**
+ * Count emails per sender, largest first
+ */
+export function countBySender(emails: EmailPreview[]): SenderCount[] {
+  const counts = new Map<string, number>()
+  for (const email of emails) {
+    counts.set(email.sender, (counts.get(email.sender) || 0) + 1)
+  }
+  return Array.from(counts, ([sender, count]) => ({ sender, count }))
+    .sort((a, b) => b.count - a.count || a.sender.localeCompare(b.sender))
+}
@@ -52,8 +52,11 @@ export function parseSSEEvent(
   // Use robust JSON parser
   const parseResult = robustJSONParse<Record<string, unknown>>(data)
 
-  if (parseResult.success && parseResult.data) {
-    const eventData = parseResult.data
+  if (parseResult.success && parseResult.data != null) {
+    // A bare JSON value such as a quoted string carries the event's content
+    const eventData = typeof parseResult.data === 'object'
+      ? parseResult.data
+      : { content: parseResult.data } as Record<string, unknown>
 
     // Ensure type field is set
     if (!eventData.type) {
@@ -80,7 +83,8 @@ export function parseSSEEvent(
   return {
     success: false,
     eventType: 'parse_error' as SSEEventType,
-    raw: parseResult.raw || data,
+    // As received, so plain text data keeps its spacing
+    raw: data,
     error: parseResult.error || 'Failed to parse SSE data',
     parseStrategy: parseResult.strategy,
   }
@@ -0,0 +1,150 @@
+/**
+ * Periodic Cleaner Request Envelope
+ *
+ * Builds the JSON message sent to the Periodic Cleaner Agent from the full
+ * CleanupSettings object, and checks the agent's result against the
+ * limits the request asked for.
+ */
+
+import { toAgentRules, type AgentRule } from '@/lib/cleanup-rules'
+import { toAgentSafelist, type AgentSafelist } from '@/lib/safelist'
+import type { AgentAccount } from '@/lib/accounts'
+import type { CleanupFrequency, CleanupSettings, PeriodicResponse } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PeriodicRunMode = 'execute' | 'dry_run'
+
+export type PeriodicRunTrigger = 'manual' | 'scheduled' | 'catch-up' | 'test'
+
+export interface PeriodicCleanupRequest {
+  request_type: 'periodic_cleanup'
+  version: 1
+  mode: PeriodicRunMode
+  trigger: PeriodicRunTrigger
+  requested_at: string
+  /** Mailbox to clean; settings and limits apply to it alone */
+  account: AgentAccount
+  instructions: string
+  settings: {
+    rules: {
+      promotional: { enabled: boolean; label_ids: string[] }
+      old_emails: { enabled: boolean; days_older_than: number }
+      /** User-defined rules in execution order */
+      custom: AgentRule[]
+    }
+    limits: {
+      max_emails_per_run: number
+    }
+    safety: {
+      require_confirmation: boolean
+      /** Hard exclusion applied to every rule */
+      safelist: AgentSafelist
+    }
+    schedule: {
+      enabled: boolean
+      frequency: CleanupFrequency
+      time: string
+      timezone: string
+    }
+  }
+}
+
+export interface DeletionLimitCheck {
+  exceeded: boolean
+  deleted: number
+  limit: number
+}
+
+// =============================================================================
+// Request Building
+// =============================================================================
+
+const RULE_RESULT_INSTRUCTIONS =
+  'Apply settings.rules.custom in order using each gmail_query, and report every custom rule in rules_results with its name as rule_name.'
+
+const DELETED_IDS_INSTRUCTIONS =
+  'Move deleted emails to Trash rather than deleting them permanently, and list the Gmail message id of every one in deleted_email_ids.'
+
+const SAFELIST_INSTRUCTIONS =
+  'Never delete or select any email matching settings.safety.safelist; append its gmail_exclusion_query to every search.'
+
+const ACCOUNT_INSTRUCTIONS =
+  'Only read and change the Gmail mailbox identified by account.'
+
+const EXECUTE_INSTRUCTIONS =
+  `${ACCOUNT_INSTRUCTIONS} Run the cleanup rules in settings.rules. ${SAFELIST_INSTRUCTIONS} Never delete more than settings.limits.max_emails_per_run emails in total. ${RULE_RESULT_INSTRUCTIONS} ${DELETED_IDS_INSTRUCTIONS} Respond with the standard cleanup result.`
+
+const DRY_RUN_INSTRUCTIONS =
+  `${ACCOUNT_INSTRUCTIONS} Dry run: do not delete anything. Evaluate the rules in settings.rules, excluding settings.safety.safelist, and report what would be deleted, capped at settings.limits.max_emails_per_run. ${RULE_RESULT_INSTRUCTIONS}`
+
+function getTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+export function buildPeriodicRequest(
+  settings: CleanupSettings,
+  options: { mode: PeriodicRunMode; trigger: PeriodicRunTrigger; account: AgentAccount }
+): PeriodicCleanupRequest {
+  return {
+    request_type: 'periodic_cleanup',
+    version: 1,
+    mode: options.mode,
+    trigger: options.trigger,
+    requested_at: new Date().toISOString(),
+    account: options.account,
+    instructions: options.mode === 'dry_run' ? DRY_RUN_INSTRUCTIONS : EXECUTE_INSTRUCTIONS,
+    settings: {
+      rules: {
+        promotional: { enabled: settings.promotional, label_ids: ['CATEGORY_PROMOTIONS'] },
+        old_emails: { enabled: settings.oldEmails, days_older_than: settings.ageThreshold },
+        custom: toAgentRules(settings.rules || []),
+      },
+      limits: {
+        max_emails_per_run: settings.maxEmailsPerRun,
+      },
+      safety: {
+        require_confirmation: settings.requireConfirmation,
+        safelist: toAgentSafelist(settings.safelist),
+      },
+      schedule: {
+        enabled: settings.scheduleEnabled,
+        frequency: settings.frequency,
+        time: settings.scheduleTime,
+        timezone: getTimezone(),
+      },
+    },
+  }
+}
+
+/**
+ * Serialize a request as the agent message
+ */
+export function serializePeriodicRequest(request: PeriodicCleanupRequest): string {
+  return JSON.stringify(request)
+}
+
+// =============================================================================
+// Result Checks
+// =============================================================================
+
+/**
+ * Verify the agent stayed within `maxEmailsPerRun`
+ */
+export function checkDeletionLimit(
+  data: PeriodicResponse,
+  settings: CleanupSettings
+): DeletionLimitCheck {
+  const deleted = data.cleanup_summary?.total_emails_deleted ?? 0
+  return {
+    exceeded: deleted > settings.maxEmailsPerRun,
+    deleted,
+    limit: settings.maxEmailsPerRun,
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Slash-Command Query Language
+ *
+ * Parses chat commands like `/find from:news@shop.com older:30d
+ * category:promotions has:attachment` locally into CriteriaIdentified,
+ * so they reach the dynamic cleaner bot as structured criteria instead
+ * of free text. Also provides autocomplete suggestions and validation
+ * for the chat composer.
+ */
+
+import { GMAIL_CATEGORIES } from '@/lib/cleanup-rules'
+import type { CriteriaIdentified } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export type QueryCommand = 'find' | 'delete'
+
+export type QueryKey = 'from' | 'older' | 'newer' | 'category' | 'has'
+
+export const QUERY_COMMANDS: { command: QueryCommand; description: string }[] = [
+  { command: 'find', description: 'Preview matching emails' },
+  { command: 'delete', description: 'Delete matching emails (reviewed first when confirmation is on)' },
+]
+
+export const QUERY_KEYS: { key: QueryKey; description: string; example: string }[] = [
+  { key: 'from', description: 'Sender address or domain', example: 'from:news@shop.com' },
+  { key: 'older', description: 'Older than a duration', example: 'older:30d' },
+  { key: 'newer', description: 'Newer than a duration', example: 'newer:7d' },
+  { key: 'category', description: 'Gmail category', example: 'category:promotions' },
+  { key: 'has', description: 'Has an attachment', example: 'has:attachment' },
+]
+
+const DURATION_PATTERN = /^(\d+)([dwmy])$/
+
+const DURATION_SUGGESTIONS = ['7d', '30d', '90d', '6m', '1y']
+
+/** Keys that may appear once per query */
+const SINGLE_KEYS: QueryKey[] = ['from', 'older', 'newer', 'category']
+
+const MAX_SUGGESTIONS = 8
+
+/** date_range values already in Gmail search syntax */
+const GMAIL_DATE_PATTERN = /^((older_than|newer_than|after|before):\S+\s*)+$/
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface QueryError {
+  /** The token the error refers to, empty for errors about the whole query */
+  token: string
+  message: string
+}
+
+export interface ParsedQuery {
+  command: QueryCommand | null
+  criteria: CriteriaIdentified
+  hasAttachment: boolean
+  /** Equivalent Gmail search */
+  gmailQuery: string
+  errors: QueryError[]
+}
+
+export interface QuerySuggestion {
+  label: string
+  description?: string
+  /** Replacement for the token being typed */
+  insert: string
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+export function isSlashCommand(input: string): boolean {
+  return input.trimStart().startsWith('/')
+}
+
+/**
+ * Split on whitespace, keeping quoted phrases and `key:"quoted value"` together
+ */
+function tokenize(input: string): string[] {
+  return input.match(/\S+:"[^"]*"?|"[^"]*"?|\S+/g) || []
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, '')
+}
+
+function quoteTerm(value: string): string {
+  return /\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+}
+
+function isQueryKey(key: string): key is QueryKey {
+  return QUERY_KEYS.some(k => k.key === key)
+}
+
+function getValueError(key: QueryKey, value: string): string | null {
+  if (!value) return `${key}: needs a value`
+
+  switch (key) {
+    case 'from':
+      return /^@?[^\s@]+(@[^\s@]+)?$/.test(value) ? null : 'Use an address or domain, like news@shop.com'
+    case 'older':
+    case 'newer':
+      return DURATION_PATTERN.test(value) ? null : 'Use a number and d, w, m or y, like 30d'
+    case 'category':
+      return (GMAIL_CATEGORIES as readonly string[]).includes(value)
+        ? null
+        : `Use one of ${GMAIL_CATEGORIES.join(', ')}`
+    case 'has':
+      return value === 'attachment' ? null : 'Only has:attachment is supported'
+  }
+}
+
+function toDays(duration: string): number {
+  const match = duration.match(DURATION_PATTERN)
+  if (!match) return 0
+  const unitDays = { d: 1, w: 7, m: 30, y: 365 }[match[2] as 'd' | 'w' | 'm' | 'y']
+  return Number(match[1]) * unitDays
+}
+
+/**
+ * Gmail's older_than/newer_than take d, m and y only, so weeks go as days
+ */
+function toGmailDuration(duration: string): string {
+  const match = duration.match(DURATION_PATTERN)
+  return match && match[2] === 'w' ? `${Number(match[1]) * 7}d` : duration
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const [commandToken = '', ...tokens] = tokenize(input.trim())
+  const errors: QueryError[] = []
+  const criteria: CriteriaIdentified = { sender: null, date_range: 'all', category: '', keywords: [] }
+  const values: Partial<Record<QueryKey, string>> = {}
+  let hasAttachment = false
+
+  const commandName = commandToken.replace(/^\//, '').toLowerCase()
+  const command = QUERY_COMMANDS.find(c => c.command === commandName)?.command ?? null
+  if (!command) {
+    errors.push({
+      token: commandToken,
+      message: `Unknown command. Try ${QUERY_COMMANDS.map(c => `/${c.command}`).join(' or ')}`,
+    })
+  }
+
+  for (const token of tokens) {
+    const separator = token.indexOf(':')
+    const key = separator > 0 ? token.slice(0, separator).toLowerCase() : ''
+
+    if (!key || token.startsWith('"')) {
+      criteria.keywords.push(unquote(token))
+      continue
+    }
+
+    if (!isQueryKey(key)) {
+      errors.push({ token, message: `Unknown filter ${key}:` })
+      continue
+    }
+
+    const value = unquote(token.slice(separator + 1)).trim().toLowerCase()
+    const error = getValueError(key, value)
+    if (error) {
+      errors.push({ token, message: error })
+      continue
+    }
+    if (SINGLE_KEYS.includes(key) && values[key] !== undefined) {
+      errors.push({ token, message: `${key}: can only be used once` })
+      continue
+    }
+
+    values[key] = value
+    if (key === 'has') hasAttachment = true
+  }
+
+  if (values.older && values.newer && toDays(values.newer) >= toDays(values.older)) {
+    errors.push({ token: `newer:${values.newer}`, message: 'newer: must be shorter than older:' })
+  }
+
+  if (values.from) criteria.sender = values.from.replace(/^@/, '')
+  if (values.category) criteria.category = values.category
+  const dateTerms = [
+    values.older && `older_than:${toGmailDuration(values.older)}`,
+    values.newer && `newer_than:${toGmailDuration(values.newer)}`,
+  ].filter(Boolean)
+  if (dateTerms.length > 0) criteria.date_range = dateTerms.join(' ')
+
+  if (command && tokens.length === 0) {
+    errors.push({ token: '', message: `Add at least one filter, like ${QUERY_KEYS[0].example}` })
+  }
+
+  return { command, criteria, hasAttachment, gmailQuery: toCriteriaGmailQuery(criteria, hasAttachment), errors }
+}
+
+/**
+ * Gmail search for a set of criteria. A date_range in plain words, as
+ * the bot sometimes reports it, is left for the bot to interpret.
+ */
+export function toCriteriaGmailQuery(criteria: CriteriaIdentified, hasAttachment = false): string {
+  const dateRange = criteria.date_range?.trim() || ''
+  return [
+    criteria.sender && `from:${quoteTerm(criteria.sender)}`,
+    criteria.category && `category:${criteria.category}`,
+    GMAIL_DATE_PATTERN.test(dateRange) && dateRange,
+    hasAttachment && 'has:attachment',
+    ...(criteria.keywords || []).map(quoteTerm),
+  ].filter(Boolean).join(' ')
+}
+
+// =============================================================================
+// Autocomplete
+// =============================================================================
+
+/**
+ * Suggestions for the token at the end of the input
+ */
+export function getQuerySuggestions(input: string, options: { senders?: string[] } = {}): QuerySuggestion[] {
+  if (!isSlashCommand(input)) return []
+
+  const trimmedStart = input.trimStart()
+  const endsWithSpace = /\s$/.test(input)
+  const tokens = tokenize(trimmedStart)
+  const current = endsWithSpace ? '' : tokens[tokens.length - 1] || ''
+
+  // Still typing the command itself
+  if (tokens.length <= 1 && !endsWithSpace) {
+    const prefix = current.replace(/^\//, '').toLowerCase()
+    return QUERY_COMMANDS
+      .filter(c => c.command.startsWith(prefix))
+      .map(c => ({ label: `/${c.command}`, description: c.description, insert: `/${c.command} ` }))
+  }
+
+  const separator = current.indexOf(':')
+  if (separator < 0) {
+    const prefix = current.toLowerCase()
+    return QUERY_KEYS
+      .filter(k => k.key.startsWith(prefix))
+      .map(k => ({ label: `${k.key}:`, description: k.description, insert: `${k.key}:` }))
+  }
+
+  const key = current.slice(0, separator).toLowerCase()
+  const prefix = unquote(current.slice(separator + 1)).toLowerCase()
+  let values: string[] = []
+
+  if (key === 'category') values = [...GMAIL_CATEGORIES]
+  else if (key === 'has') values = ['attachment']
+  else if (key === 'older' || key === 'newer') values = DURATION_SUGGESTIONS
+  else if (key === 'from') values = options.senders || []
+
+  return values
+    .filter(value => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => ({ label: `${key}:${value}`, insert: `${key}:${quoteTerm(value)} ` }))
+}
+
+/**
+ * Replace the token being typed with a suggestion
+ */
+export function applySuggestion(input: string, suggestion: QuerySuggestion): string {
+  if (/\s$/.test(input)) return input + suggestion.insert
+  const lastSpace = input.search(/\S+$/)
+  return input.slice(0, lastSpace) + suggestion.insert
+}
+
+// =============================================================================
+// Agent Request
+// =============================================================================
+
+/**
+ * Structured request for the dynamic cleaner bot. With `previewOnly` the
+ * bot lists the matches for review instead of deleting them.
+ */
+export function buildCriteriaMessage(
+  criteria: CriteriaIdentified,
+  options: { previewOnly: boolean; hasAttachment?: boolean }
+): string {
+  return JSON.stringify({
+    request_type: 'structured_query',
+    criteria,
+    has_attachment: !!options.hasAttachment,
+    gmail_query: toCriteriaGmailQuery(criteria, options.hasAttachment),
+    instructions: options.previewOnly
+      ? 'Find every email matching criteria and gmail_query and return them in email_preview. Do not delete anything. Echo criteria as criteria_identified.'
+      : 'Find every email matching criteria and gmail_query and move them all to Trash. Report the count in emails_deleted and the ids in deleted_email_ids. Echo criteria as criteria_identified.',
+  })
+}
+
+export function buildQueryMessage(query: ParsedQuery, options: { previewOnly: boolean }): string {
+  return buildCriteriaMessage(query.criteria, { ...options, hasAttachment: query.hasAttachment })
+}
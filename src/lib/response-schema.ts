@@ -0,0 +1,164 @@
+/**
+ * Response Schemas
+ *
+ * Runtime checks of agent results against the shapes recorded in
+ * response_schemas/*.json, so a reply missing a field is reported with
+ * the paths that failed instead of crashing the view that reads it.
+ *
+ * A shape uses the same notation as those files: a type name ("string",
+ * "number", "boolean"), an object of shapes, or a one-element array
+ * giving the shape of every item. "any" accepts any value, and "null"
+ * (a field the sample returned as null) accepts any value or none.
+ * Fields a sample happened to include but agents may leave out are listed
+ * as optional, with `[]` standing for any array item.
+ */
+
+import dynamicCleanerBotSchema from '../../response_schemas/dynamic_cleaner_bot_response.json'
+import periodicCleanerSchema from '../../response_schemas/periodic_cleaner_agent_response.json'
+import type { DynamicCleanerBotResponse, PeriodicResponse } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SchemaShape = string | SchemaShape[] | { [key: string]: SchemaShape }
+
+/**
+ * A shape tagged with the type it describes, for callAIAgent<T>
+ */
+export interface ResponseSchema<T> {
+  /** Agent name from the schema file, used in error messages */
+  name: string
+  shape: SchemaShape
+  /** Paths that may be missing, e.g. `rules_results[].criteria_applied.label_ids` */
+  optional: string[]
+  /** Never set; carries T */
+  readonly __type?: T
+}
+
+export interface ValidationIssue {
+  /** Where in the result, e.g. `criteria_identified.keywords[0]`; empty for the result itself */
+  path: string
+  expected: string
+  /** Type of the value found, or `missing` */
+  received: string
+}
+
+export interface ValidationResult<T> {
+  valid: boolean
+  /** The value, typed, when it is valid */
+  data?: T
+  issues: ValidationIssue[]
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export function defineResponseSchema<T>(
+  name: string,
+  shape: SchemaShape,
+  optional: string[] = []
+): ResponseSchema<T> {
+  return { name, shape, optional }
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing'
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+interface Walk {
+  optional: Set<string>
+  issues: ValidationIssue[]
+}
+
+/**
+ * `path` locates the value for messages; `shapePath` is the same path with
+ * `[]` for item indexes, as optional paths are written
+ */
+function collectIssues(shape: SchemaShape, value: unknown, path: string, shapePath: string, walk: Walk): void {
+  const { issues } = walk
+  if (value === undefined && walk.optional.has(shapePath)) return
+
+  if (typeof shape === 'string') {
+    if (shape === 'null') return
+    if (shape === 'any') {
+      if (value === undefined) issues.push({ path, expected: 'any value', received: 'missing' })
+      return
+    }
+    if (typeof value !== shape || (shape === 'number' && Number.isNaN(value))) {
+      issues.push({ path, expected: shape, received: describeValue(value) })
+    }
+    return
+  }
+
+  if (Array.isArray(shape)) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describeValue(value) })
+      return
+    }
+    const itemShape = shape[0] ?? 'any'
+    value.forEach((item, index) => collectIssues(itemShape, item, `${path}[${index}]`, `${shapePath}[]`, walk))
+    return
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, expected: 'object', received: describeValue(value) })
+    return
+  }
+  for (const [key, fieldShape] of Object.entries(shape)) {
+    collectIssues(fieldShape, (value as Record<string, unknown>)[key], joinPath(path, key), joinPath(shapePath, key), walk)
+  }
+}
+
+/**
+ * Check a value against a schema. Fields the schema doesn't mention are
+ * allowed, so agents can add to their replies without breaking the app.
+ */
+export function validateResponse<T>(schema: ResponseSchema<T>, value: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = []
+  collectIssues(schema.shape, value, '', '', { optional: new Set(schema.optional), issues })
+  return issues.length === 0 ? { valid: true, data: value as T, issues } : { valid: false, issues }
+}
+
+/**
+ * One line naming the first few failing paths
+ */
+export function describeIssues(issues: ValidationIssue[], limit: number = 3): string {
+  const listed = issues
+    .slice(0, limit)
+    .map(issue => `${issue.path || 'result'} (expected ${issue.expected}, got ${issue.received})`)
+  const more = issues.length > limit ? ` and ${issues.length - limit} more` : ''
+  return listed.join(', ') + more
+}
+
+// =============================================================================
+// Agent Schemas
+// =============================================================================
+
+// The file leaves preview items unchecked, but the preview table and the
+// delete dialog read their fields. Replies to a delete by id have no
+// search criteria.
+export const DYNAMIC_CLEANER_BOT_SCHEMA = defineResponseSchema<DynamicCleanerBotResponse>(
+  dynamicCleanerBotSchema.agent_name,
+  {
+    ...dynamicCleanerBotSchema.response_schema.result,
+    email_preview: [{ id: 'string', sender: 'string', subject: 'string', date: 'string', snippet: 'string', category: 'string' }]
+  },
+  ['criteria_identified.date_range', 'criteria_identified.category', 'email_preview[].category']
+)
+
+// Each rule type reports only the criteria it used, and the next run may be
+// unknown; the scheduler drops values it can't use
+export const PERIODIC_CLEANER_SCHEMA = defineResponseSchema<PeriodicResponse>(
+  periodicCleanerSchema.agent_name,
+  { ...periodicCleanerSchema.response_schema.result, next_scheduled_run: 'null' },
+  ['rules_results[].criteria_applied.label_ids', 'rules_results[].criteria_applied.days_older_than']
+)
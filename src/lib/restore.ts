@@ -0,0 +1,91 @@
+/**
+ * Restore Deleted Emails
+ *
+ * Deleted emails sit in Gmail's Trash for 30 days. This builds the
+ * request that asks the dynamic cleaner bot to untrash an activity
+ * entry's messages, and maps its reply to a result per message.
+ */
+
+import type { ActivityLog, RestoreResult } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Gmail permanently deletes messages this long after they are trashed */
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Eligibility
+// =============================================================================
+
+export function getTrashExpiry(entry: ActivityLog): Date {
+  return new Date(new Date(entry.timestamp).getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+}
+
+export function isWithinTrashWindow(entry: ActivityLog, now: Date = new Date()): boolean {
+  return now < getTrashExpiry(entry)
+}
+
+/**
+ * Deleted ids not yet restored by an earlier attempt
+ */
+export function getRestorableIds(entry: ActivityLog): string[] {
+  const restored = new Set(
+    (entry.restore?.results || [])
+      .filter(result => result.status === 'restored')
+      .map(result => result.message_id)
+  )
+  return (entry.deletedIds || []).filter(id => !restored.has(id))
+}
+
+export function canRestore(entry: ActivityLog, now: Date = new Date()): boolean {
+  return entry.status === 'success' && isWithinTrashWindow(entry, now) && getRestorableIds(entry).length > 0
+}
+
+// =============================================================================
+// Agent Request
+// =============================================================================
+
+export function buildRestoreMessage(messageIds: string[]): string {
+  return JSON.stringify({
+    request_type: 'restore_emails',
+    message_ids: messageIds,
+    instructions: 'Move each message in message_ids out of Trash and back to the inbox. Do not delete or fetch anything else. Report every id in restore_results as { message_id, status: "restored" | "failed", error }.',
+  })
+}
+
+/**
+ * One result per requested id; ids the agent did not report count as failed
+ */
+export function mapRestoreResults(messageIds: string[], reported: RestoreResult[] | undefined): RestoreResult[] {
+  const byId = new Map<string, RestoreResult>()
+  for (const result of Array.isArray(reported) ? reported : []) {
+    if (result?.message_id) byId.set(result.message_id, result)
+  }
+
+  return messageIds.map(id => {
+    const result = byId.get(id)
+    if (!result) return { message_id: id, status: 'failed', error: 'Not reported by the agent' }
+    return {
+      message_id: id,
+      status: result.status === 'restored' ? 'restored' : 'failed',
+      error: result.status === 'restored' ? undefined : result.error || 'Restore failed',
+    }
+  })
+}
+
+/**
+ * Merge a new attempt into earlier results so retried ids show their latest outcome
+ */
+export function mergeRestoreResults(previous: RestoreResult[] | undefined, latest: RestoreResult[]): RestoreResult[] {
+  const byId = new Map((previous || []).map(result => [result.message_id, result]))
+  for (const result of latest) byId.set(result.message_id, result)
+  return [...byId.values()]
+}
+
+export function failedRestoreResults(messageIds: string[], error: string): RestoreResult[] {
+  return messageIds.map(id => ({ message_id: id, status: 'failed', error }))
+}
@@ -0,0 +1,92 @@
+/**
+ * Retry Policy
+ *
+ * When a failed agent request is worth repeating, and how long to wait
+ * first: exponential backoff with full jitter, or the server's
+ * Retry-After when it sends one.
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts, including the first; 1 disables retries */
+  maxAttempts: number
+  /** Backoff ceiling before the first retry; doubles for each later one */
+  baseDelayMs: number
+  /** Longest backoff between attempts */
+  maxDelayMs: number
+  /** A Retry-After longer than this ends the retries instead of waiting */
+  maxRetryAfterMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30 * 1000,
+}
+
+/** Rate limits, timeouts and server errors that may pass on their own */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RequestAttempt {
+  /** 1 for the first attempt */
+  attempt: number
+  startedAt: string
+  durationMs: number
+  /** HTTP status, null when the request never got a response */
+  status: number | null
+  error?: string
+  /** Wait before the next attempt, null when this was the last */
+  retryDelayMs: number | null
+  /** Whether the wait came from the server's Retry-After */
+  retryAfter?: boolean
+}
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy }
+  return { ...resolved, maxAttempts: Math.max(1, Math.floor(resolved.maxAttempts)) }
+}
+
+/**
+ * Whether a status is worth retrying; null stands for a network error
+ */
+export function isRetryableStatus(status: number | null): boolean {
+  return status === null || RETRYABLE_STATUSES.has(status)
+}
+
+/**
+ * Full jitter: a random wait up to the doubled ceiling for this attempt,
+ * so clients that failed together don't retry together
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(random() * ceiling)
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given as seconds or an
+ * HTTP date; null when absent or unreadable
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null
+  const value = header.trim()
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return null
+  return Math.max(0, date - now)
+}
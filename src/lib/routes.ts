@@ -0,0 +1,44 @@
+/**
+ * Workspace Routes
+ *
+ * Paths for the workspace views, so each view and the thread or activity
+ * entry it shows can be bookmarked, shared and reached with back and
+ * forward navigation.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WorkspaceTab = 'dashboard' | 'chat' | 'settings'
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+export const DASHBOARD_PATH = '/dashboard'
+export const SETTINGS_PATH = '/settings'
+
+export function chatPath(threadId?: string): string {
+  return threadId ? `/chat/${encodeURIComponent(threadId)}` : '/chat'
+}
+
+/** The dashboard with one activity entry open */
+export function activityPath(entryId: string): string {
+  return `/activity/${encodeURIComponent(entryId)}`
+}
+
+export function tabPath(tab: WorkspaceTab, threadId?: string): string {
+  if (tab === 'chat') return chatPath(threadId)
+  return tab === 'settings' ? SETTINGS_PATH : DASHBOARD_PATH
+}
+
+/**
+ * Tab shown for a pathname; activity entries open over the dashboard
+ */
+export function getWorkspaceTab(pathname: string): WorkspaceTab {
+  const section = pathname.split('/')[1]
+  if (section === 'chat') return 'chat'
+  if (section === 'settings') return 'settings'
+  return 'dashboard'
+}
@@ -0,0 +1,154 @@
+/**
+ * Protected Senders (Safelist)
+ *
+ * Matches email previews against the user's safelist of addresses,
+ * domains and keywords. Enforced on the client before any IDs are sent
+ * for deletion, and passed to both agents as a hard exclusion.
+ */
+
+import type { EmailPreview, Safelist } from '@/types'
+
+export const EMPTY_SAFELIST: Safelist = {
+  addresses: [],
+  domains: [],
+  keywords: [],
+}
+
+export type SafelistField = keyof Safelist
+
+export interface ProtectionMatch {
+  field: SafelistField
+  entry: string
+}
+
+/**
+ * Safelist as sent to the agents
+ */
+export interface AgentSafelist {
+  protected_addresses: string[]
+  protected_domains: string[]
+  protected_keywords: string[]
+  gmail_exclusion_query: string
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+/**
+ * Pull the address out of a sender like `Jane Doe <jane@bank.com>`
+ */
+export function extractAddress(sender: string): string {
+  const angle = sender.match(/<([^>]+)>/)
+  if (angle) return angle[1].trim().toLowerCase()
+
+  const bare = sender.match(/[^\s<>"']+@[^\s<>"']+/)
+  return bare ? bare[0].toLowerCase() : sender.trim().toLowerCase()
+}
+
+export function normalizeSafelistEntry(field: SafelistField, value: string): string {
+  const trimmed = value.trim().toLowerCase()
+  if (field === 'domains') return trimmed.replace(/^@/, '')
+  return trimmed
+}
+
+export function getSafelistEntryError(field: SafelistField, value: string): string | null {
+  const entry = normalizeSafelistEntry(field, value)
+  if (!entry) return 'Enter a value'
+  if (field === 'addresses' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(entry)) return 'Enter a full email address'
+  if (field === 'domains' && !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(entry)) return 'Enter a domain like example.com'
+  return null
+}
+
+export function isSafelistEmpty(safelist: Safelist | undefined): boolean {
+  if (!safelist) return true
+  return safelist.addresses.length === 0 && safelist.domains.length === 0 && safelist.keywords.length === 0
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * The first safelist entry that protects an email, or null
+ */
+export function getProtectionMatch(email: EmailPreview, safelist: Safelist | undefined): ProtectionMatch | null {
+  if (isSafelistEmpty(safelist)) return null
+
+  const address = extractAddress(email.sender || '')
+  const domain = address.includes('@') ? address.split('@').pop() || '' : ''
+
+  const addressEntry = safelist.addresses.find(entry => entry === address)
+  if (addressEntry) return { field: 'addresses', entry: addressEntry }
+
+  const domainEntry = safelist.domains.find(entry => domain === entry || domain.endsWith(`.${entry}`))
+  if (domainEntry) return { field: 'domains', entry: domainEntry }
+
+  const haystack = `${email.sender} ${email.subject} ${email.snippet}`.toLowerCase()
+  const keywordEntry = safelist.keywords.find(entry => haystack.includes(entry))
+  if (keywordEntry) return { field: 'keywords', entry: keywordEntry }
+
+  return null
+}
+
+export function describeProtection(match: ProtectionMatch): string {
+  if (match.field === 'addresses') return `Protected sender ${match.entry}`
+  if (match.field === 'domains') return `Protected domain ${match.entry}`
+  return `Protected keyword "${match.entry}"`
+}
+
+/**
+ * Split emails into those that may be deleted and those the safelist protects
+ */
+export function partitionProtected(
+  emails: EmailPreview[],
+  safelist: Safelist | undefined
+): { deletable: EmailPreview[]; protectedEmails: EmailPreview[] } {
+  const deletable: EmailPreview[] = []
+  const protectedEmails: EmailPreview[] = []
+  for (const email of emails) {
+    if (getProtectionMatch(email, safelist)) {
+      protectedEmails.push(email)
+    } else {
+      deletable.push(email)
+    }
+  }
+  return { deletable, protectedEmails }
+}
+
+// =============================================================================
+// Agent Exclusions
+// =============================================================================
+
+/**
+ * Gmail search terms that exclude every safelisted email
+ */
+export function toExclusionQuery(safelist: Safelist | undefined): string {
+  if (isSafelistEmpty(safelist)) return ''
+
+  const quote = (value: string) => (/\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value)
+  return [
+    ...safelist.addresses.map(address => `-from:${address}`),
+    ...safelist.domains.map(domain => `-from:${domain}`),
+    ...safelist.keywords.map(keyword => `-${quote(keyword)}`),
+  ].join(' ')
+}
+
+export function toAgentSafelist(safelist: Safelist | undefined): AgentSafelist {
+  const list = safelist || EMPTY_SAFELIST
+  return {
+    protected_addresses: list.addresses,
+    protected_domains: list.domains,
+    protected_keywords: list.keywords,
+    gmail_exclusion_query: toExclusionQuery(list),
+  }
+}
+
+/**
+ * Append the safelist to a free-text chat message as a hard constraint
+ */
+export function withSafelistConstraint(message: string, safelist: Safelist | undefined): string {
+  if (isSafelistEmpty(safelist)) return message
+
+  return `${message}\n\nHard exclusion (never fetch for deletion or delete these, even if asked): ${JSON.stringify(toAgentSafelist(safelist))}`
+}
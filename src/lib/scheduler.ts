@@ -0,0 +1,180 @@
+/**
+ * Cleanup Scheduler
+ *
+ * Computes and persists the next Periodic Cleaner Agent run from the
+ * schedule fields of CleanupSettings. The browser tab is the only thing
+ * that can fire a run, so the locally computed time is authoritative;
+ * the agent's `next_scheduled_run` is recorded and compared against it.
+ */
+
+import { getAccountStorageKey } from '@/lib/accounts'
+import type { CleanupSettings } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const SCHEDULE_STORAGE_KEY = 'gmail_cleanup_schedule'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Agent and local times further apart than this are reported as drift */
+const DRIFT_TOLERANCE_MS = 5 * 60 * 1000
+
+/** A run claimed by another tab is considered abandoned after this long */
+const RUN_CLAIM_TTL_MS = 10 * 60 * 1000
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ScheduleTrigger = 'scheduled' | 'catch-up'
+
+export interface ScheduleState {
+  /** ISO time of the next run, null when scheduling is off */
+  nextRunAt: string | null
+  /** ISO time the last scheduled run started */
+  lastRunAt: string | null
+  lastRunStatus: 'success' | 'error' | null
+  /** Last `next_scheduled_run` reported by the agent */
+  agentNextRunAt: string | null
+  /** ISO time a tab claimed the pending run, cleared when it finishes */
+  runClaimedAt: string | null
+  /** Schedule fields the stored `nextRunAt` was computed from */
+  scheduleKey: string | null
+}
+
+export const EMPTY_SCHEDULE_STATE: ScheduleState = {
+  nextRunAt: null,
+  lastRunAt: null,
+  lastRunStatus: null,
+  agentNextRunAt: null,
+  runClaimedAt: null,
+  scheduleKey: null,
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function loadScheduleState(accountId: string): ScheduleState {
+  try {
+    const stored = localStorage.getItem(getAccountStorageKey(SCHEDULE_STORAGE_KEY, accountId))
+    return stored ? { ...EMPTY_SCHEDULE_STATE, ...JSON.parse(stored) } : EMPTY_SCHEDULE_STATE
+  } catch {
+    return EMPTY_SCHEDULE_STATE
+  }
+}
+
+export function saveScheduleState(state: ScheduleState, accountId: string) {
+  try {
+    localStorage.setItem(getAccountStorageKey(SCHEDULE_STORAGE_KEY, accountId), JSON.stringify(state))
+  } catch (e) {
+    console.error('Failed to save schedule state:', e)
+  }
+}
+
+export function isScheduleStorageKey(key: string | null, accountId: string): boolean {
+  return key === getAccountStorageKey(SCHEDULE_STORAGE_KEY, accountId)
+}
+
+// =============================================================================
+// Schedule Computation
+// =============================================================================
+
+export function isScheduleActive(settings: CleanupSettings): boolean {
+  return settings.scheduleEnabled && settings.frequency !== 'disabled'
+}
+
+/**
+ * Identifies the schedule fields, so a stored next run can be discarded
+ * once the user changes them
+ */
+export function getScheduleKey(settings: CleanupSettings): string | null {
+  if (!isScheduleActive(settings)) return null
+  return `${settings.frequency}@${settings.scheduleTime}`
+}
+
+/**
+ * Returns `date` with its local time set to the HH:mm of `scheduleTime`
+ */
+function atScheduleTime(date: Date, scheduleTime: string): Date {
+  const [hours, minutes] = scheduleTime.split(':').map(part => parseInt(part, 10))
+  const result = new Date(date)
+  result.setHours(isNaN(hours) ? 0 : hours, isNaN(minutes) ? 0 : minutes, 0, 0)
+  return result
+}
+
+/**
+ * Compute the next run strictly after `from`.
+ *
+ * Daily runs fire at the next occurrence of `scheduleTime`. Weekly runs
+ * fire seven days after the last run, or at the next occurrence of
+ * `scheduleTime` when there has never been one.
+ */
+export function computeNextRun(
+  settings: CleanupSettings,
+  from: Date,
+  lastRunAt?: string | null
+): Date | null {
+  if (!isScheduleActive(settings)) return null
+
+  let candidate = atScheduleTime(from, settings.scheduleTime)
+
+  if (settings.frequency === 'weekly' && lastRunAt) {
+    const last = new Date(lastRunAt)
+    if (!isNaN(last.getTime())) {
+      candidate = atScheduleTime(new Date(last.getTime() + 7 * DAY_MS), settings.scheduleTime)
+    }
+  }
+
+  while (candidate.getTime() <= from.getTime()) {
+    candidate = new Date(candidate.getTime() + DAY_MS)
+    candidate = atScheduleTime(candidate, settings.scheduleTime)
+  }
+
+  return candidate
+}
+
+/**
+ * Whether a stored next run was missed, e.g. because the tab was closed
+ */
+export function isRunOverdue(state: ScheduleState, now: Date): boolean {
+  if (!state.nextRunAt) return false
+  return new Date(state.nextRunAt).getTime() <= now.getTime()
+}
+
+/**
+ * Whether another tab is currently executing the pending run
+ */
+export function isRunClaimed(state: ScheduleState, now: Date): boolean {
+  if (!state.runClaimedAt) return false
+  return now.getTime() - new Date(state.runClaimedAt).getTime() < RUN_CLAIM_TTL_MS
+}
+
+/**
+ * Sanitize the agent's reported `next_scheduled_run`.
+ * Past or unparseable values are dropped.
+ */
+export function normalizeAgentNextRun(
+  agentNextRun: string | null | undefined,
+  now: Date
+): string | null {
+  if (!agentNextRun) return null
+
+  const agentTime = new Date(agentNextRun)
+  if (isNaN(agentTime.getTime()) || agentTime.getTime() <= now.getTime()) return null
+
+  return agentTime.toISOString()
+}
+
+/**
+ * Whether the agent and the local schedule disagree on the next run
+ */
+export function hasScheduleDrift(state: ScheduleState): boolean {
+  if (!state.agentNextRunAt || !state.nextRunAt) return false
+  const delta = Math.abs(
+    new Date(state.agentNextRunAt).getTime() - new Date(state.nextRunAt).getTime()
+  )
+  return delta > DRIFT_TOLERANCE_MS
+}
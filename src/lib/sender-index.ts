@@ -0,0 +1,232 @@
+/**
+ * Sender Index
+ *
+ * Builds a local per-sender index from every email preview the agents
+ * return, ranks senders by volume and age, flags likely newsletters, and
+ * builds the structured request that cleans out a single sender.
+ */
+
+import { extractAddress } from '@/lib/safelist'
+import { getAccountStorageKey } from '@/lib/accounts'
+import type { CriteriaIdentified, EmailPreview } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const SENDER_INDEX_STORAGE_KEY = 'gmail_sender_index'
+
+/** Least recently seen senders beyond this are dropped to stay within quota */
+const MAX_SENDERS = 1000
+
+/**
+ * Ids kept per sender to avoid counting an email twice when it shows up
+ * in several previews. Older ids roll off, so very old repeats may count again.
+ */
+const MAX_IDS_PER_SENDER = 200
+
+const NEWSLETTER_ADDRESS_PATTERN = /(news|newsletter|digest|no-?reply|marketing|promo|mailer|updates?|notifications?|bulletin)/i
+
+const NEWSLETTER_TEXT_PATTERN = /(unsubscribe|newsletter|weekly digest|daily digest|view (it )?in (your )?browser|email preferences|this week'?s|new arrivals|% off|sale ends)/i
+
+/** Emails from one sender at which volume alone counts as a newsletter signal */
+const HIGH_VOLUME_THRESHOLD = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SenderStats {
+  address: string
+  /** Display name from the most recent email */
+  name: string
+  count: number
+  /** Dates of the oldest and newest emails seen */
+  oldestDate: string
+  newestDate: string
+  /** When this sender last appeared in a preview */
+  lastSeenAt: string
+  categories: Record<string, number>
+  /** Emails whose subject or snippet looked like a newsletter */
+  newsletterHits: number
+  emailIds: string[]
+}
+
+export type SenderIndex = Record<string, SenderStats>
+
+export type SenderSort = 'volume' | 'oldest' | 'recent'
+
+export const SENDER_SORTS: { sort: SenderSort; label: string }[] = [
+  { sort: 'volume', label: 'Most emails' },
+  { sort: 'oldest', label: 'Oldest mail' },
+  { sort: 'recent', label: 'Recently seen' },
+]
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function loadSenderIndex(accountId: string): SenderIndex {
+  try {
+    const stored = localStorage.getItem(getAccountStorageKey(SENDER_INDEX_STORAGE_KEY, accountId))
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveSenderIndex(index: SenderIndex, accountId: string) {
+  try {
+    const senders = Object.values(index)
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+      .slice(0, MAX_SENDERS)
+    localStorage.setItem(
+      getAccountStorageKey(SENDER_INDEX_STORAGE_KEY, accountId),
+      JSON.stringify(Object.fromEntries(senders.map(sender => [sender.address, sender])))
+    )
+  } catch (e) {
+    console.error('Failed to save sender index:', e)
+  }
+}
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+function getDisplayName(sender: string): string {
+  const name = sender.replace(/<[^>]*>/, '').replace(/"/g, '').trim()
+  return name || extractAddress(sender)
+}
+
+function toTime(date: string): number {
+  const time = new Date(date).getTime()
+  return Number.isNaN(time) ? 0 : time
+}
+
+/**
+ * Add emails to the index; emails already counted are skipped, and the
+ * same index is returned when nothing was new
+ */
+export function indexEmails(index: SenderIndex, emails: EmailPreview[], now: Date = new Date()): SenderIndex {
+  const next: SenderIndex = { ...index }
+  const seenAt = now.toISOString()
+  let changed = false
+
+  for (const email of emails) {
+    if (!email?.id || !email.sender) continue
+    const address = extractAddress(email.sender)
+    const existing = next[address]
+    if (existing?.emailIds.includes(email.id)) continue
+    changed = true
+
+    const date = email.date || seenAt
+    const category = email.category?.toLowerCase()
+    const newsletterText = NEWSLETTER_TEXT_PATTERN.test(`${email.subject} ${email.snippet}`)
+
+    if (!existing) {
+      next[address] = {
+        address,
+        name: getDisplayName(email.sender),
+        count: 1,
+        oldestDate: date,
+        newestDate: date,
+        lastSeenAt: seenAt,
+        categories: category ? { [category]: 1 } : {},
+        newsletterHits: newsletterText ? 1 : 0,
+        emailIds: [email.id],
+      }
+      continue
+    }
+
+    const isNewest = toTime(date) >= toTime(existing.newestDate)
+    next[address] = {
+      ...existing,
+      name: isNewest ? getDisplayName(email.sender) : existing.name,
+      count: existing.count + 1,
+      oldestDate: toTime(date) < toTime(existing.oldestDate) ? date : existing.oldestDate,
+      newestDate: isNewest ? date : existing.newestDate,
+      lastSeenAt: seenAt,
+      categories: category
+        ? { ...existing.categories, [category]: (existing.categories[category] || 0) + 1 }
+        : existing.categories,
+      newsletterHits: existing.newsletterHits + (newsletterText ? 1 : 0),
+      emailIds: [...existing.emailIds, email.id].slice(-MAX_IDS_PER_SENDER),
+    }
+  }
+
+  return changed ? next : index
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+export function getTopCategory(stats: SenderStats): string | null {
+  const entries = Object.entries(stats.categories)
+  if (entries.length === 0) return null
+  return entries.sort((a, b) => b[1] - a[1])[0][0]
+}
+
+/**
+ * Days since the oldest email seen from this sender
+ */
+export function getSenderAgeDays(stats: SenderStats, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - toTime(stats.oldestDate)) / DAY_MS))
+}
+
+/**
+ * Reasons this sender looks like a newsletter, empty when it does not
+ */
+export function getNewsletterSignals(stats: SenderStats): string[] {
+  const signals: string[] = []
+  const category = getTopCategory(stats)
+
+  if (NEWSLETTER_ADDRESS_PATTERN.test(stats.address.split('@')[0])) signals.push('Bulk sender address')
+  if (category === 'promotions' || category === 'updates') signals.push(`Mostly ${category}`)
+  if (stats.newsletterHits > 0 && stats.newsletterHits >= stats.count / 2) signals.push('Newsletter wording')
+  if (stats.count >= HIGH_VOLUME_THRESHOLD) signals.push('High volume')
+
+  // A single weak signal, like volume alone, is not enough
+  return signals.length >= 2 ? signals : []
+}
+
+export function isLikelyNewsletter(stats: SenderStats): boolean {
+  return getNewsletterSignals(stats).length > 0
+}
+
+export function rankSenders(index: SenderIndex, sort: SenderSort): SenderStats[] {
+  const senders = Object.values(index)
+  if (sort === 'oldest') return senders.sort((a, b) => toTime(a.oldestDate) - toTime(b.oldestDate))
+  if (sort === 'recent') return senders.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+  return senders.sort((a, b) => b.count - a.count || toTime(a.oldestDate) - toTime(b.oldestDate))
+}
+
+// =============================================================================
+// Sender Cleanup Request
+// =============================================================================
+
+export function toSenderCriteria(address: string): CriteriaIdentified {
+  return {
+    sender: address,
+    date_range: 'all',
+    category: '',
+    keywords: [],
+  }
+}
+
+/**
+ * Structured request for the dynamic cleaner bot. With `previewOnly`
+ * the bot lists the matching emails so they can be reviewed first.
+ */
+export function buildSenderCleanupMessage(address: string, options: { previewOnly: boolean }): string {
+  return JSON.stringify({
+    request_type: 'sender_cleanup',
+    criteria: toSenderCriteria(address),
+    gmail_query: `from:${address}`,
+    instructions: options.previewOnly
+      ? 'Find every email matching criteria and return them in email_preview. Do not delete anything yet; set confirmation_required to true.'
+      : 'Find every email matching criteria and move them all to Trash. Report the count in emails_deleted and the ids in deleted_email_ids.',
+  })
+}
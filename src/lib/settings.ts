@@ -0,0 +1,326 @@
+/**
+ * Cleanup Settings Storage
+ *
+ * Validates stored CleanupSettings against a zod schema, upgrades older
+ * stored shapes through a chain of versioned migrations, and repairs
+ * whatever is still invalid field by field, reporting every fix. Also
+ * reads and writes the settings file used for import and export.
+ */
+
+import { z } from 'zod'
+import { getAccountStorageKey } from '@/lib/accounts'
+import { EMPTY_SAFELIST } from '@/lib/safelist'
+import type { CleanupSettings } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const SETTINGS_STORAGE_KEY = 'gmail_cleanup_settings'
+
+/**
+ * Current stored shape:
+ * 1 - the original flat object, stored without a version
+ * 2 - adds custom `rules`
+ * 3 - adds the `safelist`, stored in a `{ version, settings }` envelope
+ */
+export const SETTINGS_VERSION = 3
+
+const EXPORT_APP_ID = 'gmail-cleaner-pro'
+
+export const DEFAULT_SETTINGS: CleanupSettings = {
+  promotional: true,
+  oldEmails: true,
+  ageThreshold: 30,
+  scheduleEnabled: false,
+  frequency: 'weekly',
+  scheduleTime: '09:00',
+  requireConfirmation: true,
+  maxEmailsPerRun: 100,
+  rules: [],
+  safelist: EMPTY_SAFELIST,
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+export const SCHEDULE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const ruleConditionSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum([
+    'sender',
+    'domain',
+    'category',
+    'label',
+    'older_than_days',
+    'keyword',
+    'has_attachment',
+    'larger_than_mb',
+  ]),
+  value: z.string(),
+})
+
+const cleanupRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  enabled: z.boolean(),
+  match: z.enum(['all', 'any']),
+  conditions: z.array(ruleConditionSchema),
+  action: z.enum(['delete', 'archive', 'mark_read']),
+})
+
+const safelistSchema = z.object({
+  addresses: z.array(z.string()),
+  domains: z.array(z.string()),
+  keywords: z.array(z.string()),
+})
+
+export const cleanupSettingsSchema: z.ZodType<CleanupSettings, CleanupSettings> = z.object({
+  promotional: z.boolean(),
+  oldEmails: z.boolean(),
+  ageThreshold: z.number({ error: 'Enter a number of days' })
+    .int('Use whole days')
+    .min(1, 'Must be at least 1 day')
+    .max(3650, 'Must be at most 3650 days'),
+  scheduleEnabled: z.boolean(),
+  frequency: z.enum(['daily', 'weekly', 'disabled']),
+  scheduleTime: z.string().regex(SCHEDULE_TIME_PATTERN, 'Use 24-hour HH:mm, like 09:00'),
+  requireConfirmation: z.boolean(),
+  maxEmailsPerRun: z.number({ error: 'Enter a number of emails' })
+    .int('Use a whole number')
+    .min(1, 'Must be at least 1 email')
+    .max(1000, 'Must be at most 1000 emails'),
+  rules: z.array(cleanupRuleSchema),
+  safelist: safelistSchema,
+})
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SettingsIssue {
+  /** Dotted path of the field, empty for the whole object */
+  path: string
+  message: string
+}
+
+export interface SettingsParseResult {
+  settings: CleanupSettings
+  /** Problems found and repaired; empty when the input was valid */
+  issues: SettingsIssue[]
+  /** Version the input was migrated from, null when it was current */
+  migratedFrom: number | null
+}
+
+interface StoredSettings {
+  version: number
+  settings: CleanupSettings
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+type Migration = (settings: Record<string, unknown>) => Record<string, unknown>
+
+/** MIGRATIONS[n] upgrades version n to n + 1 */
+const MIGRATIONS: Record<number, Migration> = {
+  1: settings => ({ ...settings, rules: settings.rules ?? [] }),
+  2: settings => ({ ...settings, safelist: settings.safelist ?? EMPTY_SAFELIST }),
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * The settings object and its version, from either the versioned
+ * envelope or the unversioned original shape
+ */
+function unwrap(raw: unknown): { version: number; settings: unknown } {
+  if (isRecord(raw) && typeof raw.version === 'number' && 'settings' in raw) {
+    return { version: raw.version, settings: raw.settings }
+  }
+  return { version: 1, settings: raw }
+}
+
+function migrate(settings: Record<string, unknown>, fromVersion: number): Record<string, unknown> {
+  let migrated = settings
+  for (let version = fromVersion; version < SETTINGS_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated)
+  }
+  return migrated
+}
+
+// =============================================================================
+// Validation and Repair
+// =============================================================================
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map(String).join('.')
+}
+
+/**
+ * One issue per repaired field, and one per dropped rule however many
+ * of its fields were wrong
+ */
+function toSettingsIssues(issues: z.ZodError['issues']): SettingsIssue[] {
+  const byPath = new Map<string, string>()
+  for (const issue of issues) {
+    if (issue.path[0] === 'rules' && typeof issue.path[1] === 'number') {
+      byPath.set(formatPath(issue.path.slice(0, 2)), 'Invalid rule was removed')
+    } else if (!byPath.has(formatPath(issue.path.slice(0, 1)))) {
+      byPath.set(formatPath(issue.path.slice(0, 1)), `${issue.message}; reset to the default`)
+    }
+  }
+  return [...byPath].map(([path, message]) => ({ path, message }))
+}
+
+/**
+ * Replace each invalid field with its default. Invalid rules are
+ * dropped one by one so the valid ones survive.
+ */
+function repair(settings: Record<string, unknown>, issues: z.ZodError['issues']): CleanupSettings {
+  const repaired: Record<string, unknown> = { ...DEFAULT_SETTINGS }
+  const invalidFields = new Set(issues.map(issue => String(issue.path[0] ?? '')))
+
+  for (const key of Object.keys(DEFAULT_SETTINGS)) {
+    if (invalidFields.has('')) break
+    if (key === 'rules' && Array.isArray(settings.rules)) {
+      repaired.rules = settings.rules.filter(rule => cleanupRuleSchema.safeParse(rule).success)
+    } else if (!invalidFields.has(key)) {
+      repaired[key] = settings[key]
+    }
+  }
+
+  const result = cleanupSettingsSchema.safeParse(repaired)
+  return result.success ? result.data : DEFAULT_SETTINGS
+}
+
+/**
+ * Validate settings of any stored version, migrating and repairing as needed
+ */
+export function parseSettings(raw: unknown): SettingsParseResult {
+  const { version, settings } = unwrap(raw)
+
+  if (!isRecord(settings)) {
+    return {
+      settings: DEFAULT_SETTINGS,
+      issues: [{ path: '', message: 'Settings are not an object; defaults were restored' }],
+      migratedFrom: null,
+    }
+  }
+
+  if (version > SETTINGS_VERSION || version < 1 || !Number.isInteger(version)) {
+    return {
+      settings: DEFAULT_SETTINGS,
+      issues: [{ path: 'version', message: `Unsupported settings version ${version}; defaults were restored` }],
+      migratedFrom: null,
+    }
+  }
+
+  const migrated = migrate(settings, version)
+  const result = cleanupSettingsSchema.safeParse(migrated)
+  const migratedFrom = version < SETTINGS_VERSION ? version : null
+
+  if (result.success) {
+    return { settings: result.data, issues: [], migratedFrom }
+  }
+
+  return {
+    settings: repair(migrated, result.error.issues),
+    issues: toSettingsIssues(result.error.issues),
+    migratedFrom,
+  }
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Load an account's settings. Migrated or repaired settings are written
+ * back right away, so the issues are reported only once.
+ */
+export function loadSettings(accountId: string): SettingsParseResult {
+  let stored: string | null = null
+  try {
+    stored = localStorage.getItem(getAccountStorageKey(SETTINGS_STORAGE_KEY, accountId))
+  } catch {
+    return { settings: DEFAULT_SETTINGS, issues: [], migratedFrom: null }
+  }
+  if (!stored) return { settings: DEFAULT_SETTINGS, issues: [], migratedFrom: null }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(stored)
+  } catch {
+    const result = {
+      settings: DEFAULT_SETTINGS,
+      issues: [{ path: '', message: 'Stored settings were not valid JSON; defaults were restored' }],
+      migratedFrom: null,
+    }
+    saveSettings(result.settings, accountId)
+    return result
+  }
+
+  const result = parseSettings(raw)
+  if (result.issues.length > 0 || result.migratedFrom !== null) {
+    saveSettings(result.settings, accountId)
+  }
+  return result
+}
+
+/**
+ * Returns false when the settings could not be written
+ */
+export function saveSettings(settings: CleanupSettings, accountId: string): boolean {
+  try {
+    const stored: StoredSettings = { version: SETTINGS_VERSION, settings }
+    localStorage.setItem(getAccountStorageKey(SETTINGS_STORAGE_KEY, accountId), JSON.stringify(stored))
+    return true
+  } catch (e) {
+    console.error('Failed to save settings:', e)
+    return false
+  }
+}
+
+// =============================================================================
+// Import and Export
+// =============================================================================
+
+export function toSettingsExport(settings: CleanupSettings): string {
+  return JSON.stringify({
+    app: EXPORT_APP_ID,
+    version: SETTINGS_VERSION,
+    exported_at: new Date().toISOString(),
+    settings,
+  }, null, 2)
+}
+
+/**
+ * Read an exported settings file. Files from older versions are migrated
+ * and invalid fields repaired like stored settings; a file that is not
+ * settings at all throws.
+ */
+export function parseSettingsImport(text: string): SettingsParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (isRecord(raw) && 'app' in raw && raw.app !== EXPORT_APP_ID) {
+    throw new Error('The file was not exported from Gmail Cleaner Pro')
+  }
+
+  const { settings } = unwrap(raw)
+  if (!isRecord(settings) || !Object.keys(DEFAULT_SETTINGS).some(key => key in settings)) {
+    throw new Error('The file does not contain cleanup settings')
+  }
+
+  return parseSettings(raw)
+}
@@ -0,0 +1,186 @@
+/**
+ * Keyboard Shortcuts
+ *
+ * Key bindings for the workspace actions, stored as strings such as
+ * "mod+k" or "alt+1", where `mod` is Cmd on macOS and Ctrl elsewhere.
+ * Users can rebind or clear any action; their bindings are kept per
+ * browser, not per account.
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const SHORTCUTS_STORAGE_KEY = 'gmail_cleaner_shortcuts'
+
+export type ShortcutActionId =
+  | 'openPalette'
+  | 'showShortcuts'
+  | 'goDashboard'
+  | 'goChat'
+  | 'goSettings'
+  | 'runCleanup'
+  | 'dryRun'
+  | 'selectAll'
+  | 'deleteSelection'
+
+export interface ShortcutAction {
+  id: ShortcutActionId
+  label: string
+  group: 'General' | 'Navigation' | 'Cleanup'
+}
+
+/** In display order */
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: 'openPalette', label: 'Open command palette', group: 'General' },
+  { id: 'showShortcuts', label: 'Show keyboard shortcuts', group: 'General' },
+  { id: 'goDashboard', label: 'Go to Dashboard', group: 'Navigation' },
+  { id: 'goChat', label: 'Go to Chat', group: 'Navigation' },
+  { id: 'goSettings', label: 'Go to Settings', group: 'Navigation' },
+  { id: 'runCleanup', label: 'Run cleanup now', group: 'Cleanup' },
+  { id: 'dryRun', label: 'Start a dry run', group: 'Cleanup' },
+  { id: 'selectAll', label: 'Select all previews', group: 'Cleanup' },
+  { id: 'deleteSelection', label: 'Delete selected emails', group: 'Cleanup' },
+]
+
+/** A null binding leaves the action without a shortcut */
+export type ShortcutBindings = Record<ShortcutActionId, string | null>
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  openPalette: 'mod+k',
+  showShortcuts: '?',
+  goDashboard: 'alt+1',
+  goChat: 'alt+2',
+  goSettings: 'alt+3',
+  runCleanup: 'alt+r',
+  dryRun: 'alt+d',
+  selectAll: 'alt+a',
+  deleteSelection: 'alt+backspace',
+}
+
+const MODIFIERS = ['mod', 'alt', 'shift'] as const
+
+/** Keys pressed alone that never make a binding */
+const MODIFIER_KEYS = new Set(['meta', 'control', 'alt', 'shift', 'capslock', 'os'])
+
+const KEY_LABELS: Record<string, string> = {
+  backspace: '⌫',
+  delete: 'Del',
+  enter: '↵',
+  escape: 'Esc',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  ' ': 'Space',
+}
+
+// =============================================================================
+// Bindings
+// =============================================================================
+
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform)
+}
+
+/**
+ * The key without modifiers. Letters and digits come from the physical
+ * key, so Alt+1 on macOS is "1" rather than "¡".
+ */
+function getEventKey(event: KeyboardEvent): string {
+  const letter = /^Key([A-Z])$/.exec(event.code)
+  if (letter) return letter[1].toLowerCase()
+  const digit = /^Digit(\d)$/.exec(event.code)
+  if (digit) return digit[1]
+  return event.key.toLowerCase()
+}
+
+/**
+ * Binding for a key press, or null for a lone modifier. Shift is left out
+ * for symbols, since it is part of typing them ("?" rather than "shift+?").
+ */
+export function getBindingFromEvent(event: KeyboardEvent): string | null {
+  const key = getEventKey(event)
+  if (MODIFIER_KEYS.has(key)) return null
+
+  const isSymbol = key.length === 1 && !/[a-z0-9]/.test(key)
+  const parts: string[] = []
+  if (isMacPlatform() ? event.metaKey : event.ctrlKey) parts.push('mod')
+  if (event.altKey) parts.push('alt')
+  if (event.shiftKey && !isSymbol) parts.push('shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+export function matchesBinding(event: KeyboardEvent, binding: string | null): boolean {
+  return !!binding && getBindingFromEvent(event) === binding
+}
+
+/** Bindings with Cmd/Ctrl work while typing; the others would eat keystrokes */
+export function worksWhileTyping(binding: string): boolean {
+  return binding.split('+').includes('mod')
+}
+
+/**
+ * Keys to show for a binding, e.g. ["⌘", "K"] on macOS and ["Ctrl", "K"] elsewhere
+ */
+export function formatBinding(binding: string, mac = isMacPlatform()): string[] {
+  const labels: Record<(typeof MODIFIERS)[number], string> = mac
+    ? { mod: '⌘', alt: '⌥', shift: '⇧' }
+    : { mod: 'Ctrl', alt: 'Alt', shift: 'Shift' }
+
+  return binding.split('+').map((part, index, parts) => {
+    if (index < parts.length - 1) return labels[part as (typeof MODIFIERS)[number]] ?? part
+    return KEY_LABELS[part] ?? part.toUpperCase()
+  })
+}
+
+/** The action already using a binding, so a rebind can take it over */
+export function findBindingOwner(
+  bindings: ShortcutBindings,
+  binding: string
+): ShortcutActionId | null {
+  const owner = SHORTCUT_ACTIONS.find(action => bindings[action.id] === binding)
+  return owner ? owner.id : null
+}
+
+function isValidBinding(value: unknown): value is string {
+  if (typeof value !== 'string' || value === '') return false
+  const parts = value.split('+')
+  const key = parts[parts.length - 1]
+  return key !== '' && parts.slice(0, -1).every(part => (MODIFIERS as readonly string[]).includes(part))
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Stored bindings over the defaults; unknown actions and malformed
+ * bindings are ignored
+ */
+export function loadShortcuts(): ShortcutBindings {
+  try {
+    const stored = localStorage.getItem(SHORTCUTS_STORAGE_KEY)
+    if (!stored) return DEFAULT_SHORTCUTS
+    const parsed = JSON.parse(stored)
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_SHORTCUTS
+
+    const bindings = { ...DEFAULT_SHORTCUTS }
+    for (const action of SHORTCUT_ACTIONS) {
+      const value = parsed[action.id]
+      if (value === null || isValidBinding(value)) bindings[action.id] = value
+    }
+    return bindings
+  } catch {
+    return DEFAULT_SHORTCUTS
+  }
+}
+
+export function saveShortcuts(bindings: ShortcutBindings): void {
+  try {
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings))
+  } catch (e) {
+    console.error('Failed to save shortcuts:', e)
+  }
+}
@@ -0,0 +1,282 @@
+import { useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Loader2, Mail, MessageSquare, Plus, Trash2, X } from 'lucide-react'
+import type { ChatThread } from '@/types'
+import EmailPreviewTable from '@/components/EmailPreviewTable'
+import { CriteriaChips } from '@/components/CriteriaChips'
+import { ChatComposer } from '@/components/ChatComposer'
+import { StreamingReply } from '@/components/StreamingReply'
+import { useWorkspace } from '@/hooks/useWorkspace'
+import { formatDate, formatTime } from '@/lib/format'
+import { chatPath } from '@/lib/routes'
+
+// Chat Thread List Component
+function ChatThreadList({
+  threads,
+  activeThreadId,
+  disabled,
+  onSelect,
+  onCreate,
+  onDelete
+}: {
+  threads: ChatThread[]
+  activeThreadId: string
+  disabled: boolean
+  onSelect: (threadId: string) => void
+  onCreate: () => void
+  onDelete: (threadId: string) => void
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Conversations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Conversation
+        </Button>
+        <ScrollArea className="h-[440px]">
+          <div className="space-y-1">
+            {threads.map(thread => (
+              <div
+                key={thread.id}
+                className={`group flex items-start gap-2 p-2 rounded-lg cursor-pointer transition-colors ${
+                  thread.id === activeThreadId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => !disabled && onSelect(thread.id)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{thread.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {thread.chatMessages.length} messages · {formatDate(thread.updatedAt)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  aria-label="Delete conversation"
+                  className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (!disabled) onDelete(thread.id)
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Conversations with the cleaner bot and the emails it found, shown at
+ * /chat/:threadId
+ */
+export default function ChatView() {
+  const navigate = useNavigate()
+  const {
+    chatThreads,
+    activeThread,
+    createThread,
+    deleteThread,
+    chatInput,
+    setChatInput,
+    sendChatMessage,
+    chatLoading,
+    chatError,
+    stopChatRequest,
+    streamingReply,
+    knownSenders,
+    refineCriteria,
+    selectableEmails,
+    selectedEmails,
+    setSelectedEmails,
+    selectAllEmails,
+    deleteSelectedEmails,
+    savedSettings
+  } = useWorkspace()
+  const chatMessages = activeThread.chatMessages
+  const emailPreviews = activeThread.emailPreviews
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-[240px_1fr_1fr]">
+      {/* Thread List */}
+      <div className="md:col-span-2 lg:col-span-1">
+        <ChatThreadList
+          threads={chatThreads}
+          activeThreadId={activeThread.id}
+          disabled={chatLoading}
+          onSelect={(threadId) => navigate(chatPath(threadId))}
+          onCreate={createThread}
+          onDelete={deleteThread}
+        />
+      </div>
+
+      {/* Chat Panel */}
+      <Card className="md:col-span-1">
+        <CardHeader>
+          <CardTitle>Chat Cleanup</CardTitle>
+          <CardDescription>Tell me what emails to clean</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-[400px] pr-4 mb-4">
+            {chatMessages.length === 0 ? (
+              <div className="text-center py-12">
+                <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-sm text-gray-500">Start a conversation</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {chatMessages.map(msg => (
+                  <div
+                    key={msg.id}
+                    className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                        msg.role === 'user'
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-900'
+                      }`}
+                    >
+                      <p className="text-sm">{msg.content}</p>
+                      <p className={`text-xs mt-1 ${
+                        msg.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                      }`}>
+                        {formatTime(msg.timestamp)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+                {streamingReply?.threadId === activeThread.id && (
+                  <StreamingReply text={streamingReply.text} tools={streamingReply.tools} />
+                )}
+              </div>
+            )}
+          </ScrollArea>
+
+          {chatError && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{chatError}</p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {/* Suggestion Chips */}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setChatInput('Show promotional emails')}
+                className="text-xs"
+              >
+                Show promotional emails
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setChatInput('Emails older than 30 days')}
+                className="text-xs"
+              >
+                Emails older than 30 days
+              </Button>
+            </div>
+
+            {/* Input */}
+            <ChatComposer
+              value={chatInput}
+              onChange={setChatInput}
+              onSubmit={sendChatMessage}
+              loading={chatLoading}
+              onStop={stopChatRequest ?? undefined}
+              senders={knownSenders}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Email Preview Panel */}
+      <Card className="md:col-span-1">
+        <CardHeader>
+          <CardTitle>Email Preview</CardTitle>
+          <CardDescription>
+            {emailPreviews.length > 0
+              ? `${emailPreviews.length} emails found`
+              : 'No emails to preview'
+            }
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {activeThread.criteria && (
+            <div className="mb-3">
+              <CriteriaChips
+                criteria={activeThread.criteria}
+                disabled={chatLoading}
+                onChange={refineCriteria}
+              />
+            </div>
+          )}
+          {activeThread.confirmationRequired && emailPreviews.length > 0 && (
+            <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm text-amber-700">
+                The assistant is waiting for confirmation. Select emails and delete them to review exactly what will be removed.
+              </p>
+            </div>
+          )}
+          {emailPreviews.length > 0 && (
+            <div className="mb-4 flex items-center gap-2 pb-3 border-b">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={selectAllEmails}
+                disabled={selectableEmails.length === 0}
+              >
+                {selectedEmails.size > 0 && selectedEmails.size === selectableEmails.length ? 'Deselect All' : 'Select All'}
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={deleteSelectedEmails}
+                disabled={selectedEmails.size === 0 || chatLoading}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                {chatLoading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4 mr-2" />
+                )}
+                Delete Selected ({selectedEmails.size})
+              </Button>
+            </div>
+          )}
+
+          {emailPreviews.length === 0 ? (
+            <div className="text-center py-12">
+              <Mail className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-sm text-gray-500">Emails will appear here</p>
+            </div>
+          ) : (
+            <EmailPreviewTable
+              emails={emailPreviews}
+              selectedIds={selectedEmails}
+              onSelectionChange={setSelectedEmails}
+              safelist={savedSettings.safelist}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
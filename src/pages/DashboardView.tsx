@@ -0,0 +1,215 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { BarChart, Calendar, Clock, Loader2, MessageSquare, RefreshCw } from 'lucide-react'
+import type { ActivityLog } from '@/types'
+import DashboardCharts from '@/components/DashboardCharts'
+import ActivityHistory from '@/components/ActivityHistory'
+import SenderAnalytics from '@/components/SenderAnalytics'
+import { useWorkspace } from '@/hooks/useWorkspace'
+import { formatDate, formatTime } from '@/lib/format'
+import { DASHBOARD_PATH, activityPath } from '@/lib/routes'
+import type { ScheduleState } from '@/lib/scheduler'
+
+// Dashboard Stats Component
+function DashboardStats({ activityLog }: { activityLog: ActivityLog[] }) {
+  const now = new Date()
+  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+  const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
+
+  const weekCount = activityLog
+    .filter(log => new Date(log.timestamp) >= weekAgo && log.status === 'success')
+    .reduce((sum, log) => sum + log.emailsDeleted, 0)
+
+  const monthCount = activityLog
+    .filter(log => new Date(log.timestamp) >= monthAgo && log.status === 'success')
+    .reduce((sum, log) => sum + log.emailsDeleted, 0)
+
+  const lastCleanup = activityLog.length > 0
+    ? activityLog[0].timestamp
+    : null
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">This Week</CardTitle>
+          <BarChart className="h-4 w-4 text-blue-600" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-gray-900">{weekCount}</div>
+          <p className="text-xs text-gray-500">emails cleaned</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">This Month</CardTitle>
+          <Calendar className="h-4 w-4 text-blue-600" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-gray-900">{monthCount}</div>
+          <p className="text-xs text-gray-500">emails cleaned</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Last Cleanup</CardTitle>
+          <Clock className="h-4 w-4 text-blue-600" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-gray-900">
+            {lastCleanup ? formatDate(lastCleanup) : 'Never'}
+          </div>
+          <p className="text-xs text-gray-500">
+            {lastCleanup ? formatTime(lastCleanup) : 'No cleanup yet'}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Upcoming scheduled run summary
+function ScheduleStatus({
+  schedule,
+  drift,
+  running,
+  pending
+}: {
+  schedule: ScheduleState
+  drift: boolean
+  running: boolean
+  pending: boolean
+}) {
+  return (
+    <div className="p-3 rounded-lg border bg-gray-50 space-y-1">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-900">Next Scheduled Run</p>
+        {running && (
+          <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Running
+          </Badge>
+        )}
+        {pending && !running && (
+          <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+            Pending
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm text-gray-700">
+        {schedule.nextRunAt
+          ? `${formatDate(schedule.nextRunAt)} at ${formatTime(schedule.nextRunAt)}`
+          : 'Scheduling is off'
+        }
+      </p>
+      {schedule.lastRunAt && (
+        <p className="text-xs text-gray-500">
+          Last run {formatDate(schedule.lastRunAt)} at {formatTime(schedule.lastRunAt)}
+          {schedule.lastRunStatus === 'error' ? ' (failed)' : ''}
+        </p>
+      )}
+      {drift && schedule.agentNextRunAt && (
+        <p className="text-xs text-amber-600">
+          Agent reports next run {formatDate(schedule.agentNextRunAt)} at {formatTime(schedule.agentNextRunAt)}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Cleanup stats, activity history and sender analytics, shown at
+ * /dashboard and /activity/:entryId
+ */
+export default function DashboardView() {
+  const navigate = useNavigate()
+  const { entryId } = useParams()
+  const {
+    activityLog,
+    activityLoading,
+    activityError,
+    restoringEntryId,
+    restoreActivity,
+    showTab,
+    runCleanupNow,
+    periodicLoading,
+    periodicError,
+    schedule,
+    drift,
+    scheduledRunActive,
+    scheduledRunPending,
+    senderIndex,
+    savedSettings,
+    chatLoading,
+    cleanSender
+  } = useWorkspace()
+
+  return (
+    <>
+      <DashboardStats activityLog={activityLog} />
+
+      <DashboardCharts entries={activityLog} />
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <ActivityHistory
+          entries={activityLog}
+          loading={activityLoading}
+          error={activityError}
+          restoringEntryId={restoringEntryId}
+          onRestore={restoreActivity}
+          openEntryId={entryId ?? null}
+          onOpenEntry={(id) => navigate(id ? activityPath(id) : DASHBOARD_PATH)}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Quick Actions</CardTitle>
+            <CardDescription>Start cleaning your inbox</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Button
+              onClick={() => showTab('chat')}
+              className="w-full bg-blue-600 hover:bg-blue-700"
+            >
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Start Chat Cleanup
+            </Button>
+            <Button
+              onClick={runCleanupNow}
+              disabled={periodicLoading}
+              variant="outline"
+              className="w-full"
+            >
+              {periodicLoading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Run Cleanup Now
+            </Button>
+            {periodicError && (
+              <p className="text-sm text-red-600">{periodicError}</p>
+            )}
+            <ScheduleStatus
+              schedule={schedule}
+              drift={drift}
+              running={scheduledRunActive}
+              pending={scheduledRunPending}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <SenderAnalytics
+        index={senderIndex}
+        safelist={savedSettings.safelist}
+        busy={chatLoading}
+        onCleanSender={cleanSender}
+      />
+    </>
+  )
+}
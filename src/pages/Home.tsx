@@ -1,384 +1,255 @@
-import { useState, useEffect } from 'react'
+import { Suspense, useState, useEffect, useMemo, useRef, type ReactNode } from 'react'
+import { useLocation, useNavigate, useOutlet, useParams } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Input } from '@/components/ui/input'
-import { Label } from '@/components/ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Badge } from '@/components/ui/badge'
-import { ScrollArea } from '@/components/ui/scroll-area'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Switch } from '@/components/ui/switch'
-import { Checkbox } from '@/components/ui/checkbox'
-import { Separator } from '@/components/ui/separator'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
 import {
   Mail,
-  Trash2,
-  Clock,
   CheckCircle,
   AlertCircle,
+  Clock,
   Settings,
   MessageSquare,
   BarChart,
   Loader2,
-  Send,
   Filter,
-  Calendar,
-  RefreshCw
+  Search,
+  Keyboard
 } from 'lucide-react'
-import { callAIAgent } from '@/utils/aiAgent'
+import { callAIAgent, streamAIAgent } from '@/utils/aiAgent'
 import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import type {
+  ActivityLog,
+  ChatMessage,
+  ChatThread,
+  CleanupSettings,
+  CriteriaIdentified,
+  EmailPreview,
+  PeriodicResponse,
+  RestoreResult
+} from '@/types'
+import { useCleanupScheduler } from '@/hooks/useCleanupScheduler'
+import { useChatThreads } from '@/hooks/useChatThreads'
+import { WorkspaceContext, type StreamingReplyState, type Workspace } from '@/hooks/useWorkspace'
+import { DeleteConfirmationDialog } from '@/components/DeleteConfirmationDialog'
+import type { DryRunResult } from '@/components/DryRunReport'
+import type { SettingsNotice } from '@/components/SettingsForm'
+import { AccountSwitcher } from '@/components/AccountSwitcher'
+import { AgentHealthIndicator } from '@/components/AgentHealthIndicator'
+import { CommandPalette } from '@/components/CommandPalette'
+import { ShortcutHelpSheet, ShortcutKeys } from '@/components/ShortcutHelpSheet'
+import { useKeyboardShortcuts, type ShortcutHandlers } from '@/hooks/useKeyboardShortcuts'
+import { useAgentHealth } from '@/hooks/useAgentHealth'
+import { useAccounts } from '@/hooks/useAccounts'
+import { getAccountDisplayName, toAgentAccount, withAccountContext } from '@/lib/accounts'
+import { loadSettings, saveSettings as storeSettings } from '@/lib/settings'
+import { useActivityHistory } from '@/hooks/useActivityHistory'
+import { useSenderIndex } from '@/hooks/useSenderIndex'
+import { buildSenderCleanupMessage, rankSenders } from '@/lib/sender-index'
+import { applyToolEvent, getStreamingMessage } from '@/lib/agent-stream'
+import { DYNAMIC_CLEANER_BOT_SCHEMA, PERIODIC_CLEANER_SCHEMA } from '@/lib/response-schema'
+import {
+  buildCriteriaMessage,
+  buildQueryMessage,
+  isSlashCommand,
+  parseQuery,
+  toCriteriaGmailQuery
+} from '@/lib/query-language'
+import {
+  loadRuleResults,
+  saveRuleResults,
+  type StoredRuleResults
+} from '@/lib/cleanup-rules'
+import { hasDeleteIntent, isAffirmative } from '@/lib/confirmation'
+import { formatDate, formatTime } from '@/lib/format'
+import {
+  buildPeriodicRequest,
+  checkDeletionLimit,
+  serializePeriodicRequest,
+  type DeletionLimitCheck
+} from '@/lib/periodic-request'
+import {
+  getProtectionMatch,
+  partitionProtected,
+  withSafelistConstraint
+} from '@/lib/safelist'
+import {
+  buildRestoreMessage,
+  failedRestoreResults,
+  getRestorableIds,
+  mapRestoreResults,
+  mergeRestoreResults
+} from '@/lib/restore'
+import type { ScheduleTrigger } from '@/lib/scheduler'
+import {
+  DASHBOARD_PATH,
+  chatPath,
+  getWorkspaceTab,
+  tabPath,
+  type WorkspaceTab
+} from '@/lib/routes'
 
 // Agent IDs from workflow.json
 const DYNAMIC_CLEANER_BOT_ID = "69787126a75ef8a94cc4f0d1"
 const PERIODIC_AGENT_ID = "697871441b6268d7b95195f6"
 
-// TypeScript interfaces from actual test responses
-interface CriteriaIdentified {
-  sender: string | null
-  date_range: string
-  category: string
-  keywords: string[]
-}
-
-interface EmailPreview {
-  id: string
-  sender: string
-  subject: string
-  date: string
-  snippet: string
-  category?: string
-}
-
-interface DynamicCleanerBotResponse {
-  action: string
-  emails_found: number
-  emails_deleted: number
-  criteria_identified: CriteriaIdentified
-  email_preview: EmailPreview[]
-  confirmation_required: boolean
-  message: string
-}
-
-interface RuleResult {
-  rule_name: string
-  rule_type: string
-  emails_found: number
-  emails_deleted: number
-  criteria_applied: {
-    label_ids?: string[]
-    days_older_than?: number
-  }
-  status: string
-}
-
-interface PeriodicResponse {
-  cleanup_summary: {
-    total_emails_processed: number
-    total_emails_deleted: number
-    rules_executed: number
-    execution_time_seconds: number
-  }
-  rules_results: RuleResult[]
-  next_scheduled_run: string
-  errors: string[]
-}
-
-interface ChatMessage {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: string
-}
-
-interface ActivityLog {
-  id: string
-  timestamp: string
-  action: string
-  emailsDeleted: number
-  status: 'success' | 'error'
-}
-
-interface CleanupSettings {
-  promotional: boolean
-  oldEmails: boolean
-  ageThreshold: number
-  scheduleEnabled: boolean
-  frequency: 'daily' | 'weekly' | 'disabled'
-  scheduleTime: string
-  requireConfirmation: boolean
-  maxEmailsPerRun: number
-}
-
-// Helper to format date
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr)
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
-}
-
-// Helper to format time
-function formatTime(dateStr: string): string {
-  const date = new Date(dateStr)
-  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
-}
-
-// Load activity from localStorage
-function loadActivityLog(): ActivityLog[] {
-  try {
-    const stored = localStorage.getItem('gmail_activity_log')
-    return stored ? JSON.parse(stored) : []
-  } catch {
-    return []
-  }
-}
-
-// Save activity to localStorage
-function saveActivityLog(logs: ActivityLog[]) {
-  try {
-    localStorage.setItem('gmail_activity_log', JSON.stringify(logs))
-  } catch (e) {
-    console.error('Failed to save activity log:', e)
-  }
-}
-
-// Load settings from localStorage
-function loadSettings(): CleanupSettings {
-  try {
-    const stored = localStorage.getItem('gmail_cleanup_settings')
-    return stored ? JSON.parse(stored) : {
-      promotional: true,
-      oldEmails: true,
-      ageThreshold: 30,
-      scheduleEnabled: false,
-      frequency: 'weekly' as const,
-      scheduleTime: '09:00',
-      requireConfirmation: true,
-      maxEmailsPerRun: 100
-    }
-  } catch {
-    return {
-      promotional: true,
-      oldEmails: true,
-      ageThreshold: 30,
-      scheduleEnabled: false,
-      frequency: 'weekly' as const,
-      scheduleTime: '09:00',
-      requireConfirmation: true,
-      maxEmailsPerRun: 100
-    }
-  }
-}
-
-// Dashboard Stats Component
-function DashboardStats({ activityLog }: { activityLog: ActivityLog[] }) {
-  const now = new Date()
-  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-  const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
-
-  const weekCount = activityLog
-    .filter(log => new Date(log.timestamp) >= weekAgo && log.status === 'success')
-    .reduce((sum, log) => sum + log.emailsDeleted, 0)
-
-  const monthCount = activityLog
-    .filter(log => new Date(log.timestamp) >= monthAgo && log.status === 'success')
-    .reduce((sum, log) => sum + log.emailsDeleted, 0)
-
-  const lastCleanup = activityLog.length > 0
-    ? activityLog[0].timestamp
-    : null
-
+function ViewLoader() {
   return (
-    <div className="grid gap-4 md:grid-cols-3">
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">This Week</CardTitle>
-          <BarChart className="h-4 w-4 text-blue-600" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-gray-900">{weekCount}</div>
-          <p className="text-xs text-gray-500">emails cleaned</p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">This Month</CardTitle>
-          <Calendar className="h-4 w-4 text-blue-600" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-gray-900">{monthCount}</div>
-          <p className="text-xs text-gray-500">emails cleaned</p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Last Cleanup</CardTitle>
-          <Clock className="h-4 w-4 text-blue-600" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-gray-900">
-            {lastCleanup ? formatDate(lastCleanup) : 'Never'}
-          </div>
-          <p className="text-xs text-gray-500">
-            {lastCleanup ? formatTime(lastCleanup) : 'No cleanup yet'}
-          </p>
-        </CardContent>
-      </Card>
+    <div className="flex justify-center py-12">
+      <Loader2 className="h-6 w-6 text-gray-400 animate-spin" />
     </div>
   )
 }
 
-// Activity Log Component
-function ActivityLogList({ activityLog }: { activityLog: ActivityLog[] }) {
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Recent Activity</CardTitle>
-        <CardDescription>Your cleanup history</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <ScrollArea className="h-[300px] pr-4">
-          {activityLog.length === 0 ? (
-            <p className="text-sm text-gray-500 text-center py-8">No activity yet</p>
-          ) : (
-            <div className="space-y-3">
-              {activityLog.map(log => (
-                <div key={log.id} className="flex items-start gap-3 p-3 rounded-lg border bg-gray-50">
-                  {log.status === 'success' ? (
-                    <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
-                  ) : (
-                    <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
-                  )}
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-gray-900">{log.action}</p>
-                    <p className="text-xs text-gray-500 mt-0.5">
-                      {log.status === 'success'
-                        ? `${log.emailsDeleted} emails deleted`
-                        : 'Failed'
-                      }
-                    </p>
-                  </div>
-                  <div className="text-xs text-gray-500 whitespace-nowrap">
-                    {formatDate(log.timestamp)}
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </ScrollArea>
-      </CardContent>
-    </Card>
-  )
-}
-
-// Email Preview Card Component
-function EmailPreviewCard({
-  email,
-  selected,
-  onToggle
+// Everything below the header belongs to one account and is remounted on switch
+function AccountWorkspace({
+  accounts,
+  holdOverdueRuns
 }: {
-  email: EmailPreview
-  selected: boolean
-  onToggle: () => void
+  accounts: ReturnType<typeof useAccounts>
+  /** Opened by switching accounts; an overdue run waits to be started */
+  holdOverdueRuns: boolean
 }) {
-  const getInitials = (sender: string) => {
-    const words = sender.split(' ')
-    return words.length > 1
-      ? `${words[0][0]}${words[1][0]}`.toUpperCase()
-      : sender.substring(0, 2).toUpperCase()
-  }
-
-  const getCategoryColor = (category?: string) => {
-    if (!category) return 'bg-gray-100 text-gray-800'
-    const cat = category.toLowerCase()
-    if (cat.includes('promo')) return 'bg-purple-100 text-purple-800'
-    if (cat.includes('social')) return 'bg-blue-100 text-blue-800'
-    if (cat.includes('update')) return 'bg-green-100 text-green-800'
-    return 'bg-gray-100 text-gray-800'
-  }
-
-  return (
-    <div
-      className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-        selected ? 'bg-blue-50 border-blue-300' : 'bg-white hover:bg-gray-50'
-      }`}
-      onClick={onToggle}
-    >
-      <div className="flex items-start gap-3">
-        <Checkbox checked={selected} onCheckedChange={onToggle} />
-        <div className="w-10 h-10 rounded-full bg-blue-600 text-white flex items-center justify-center text-sm font-medium">
-          {getInitials(email.sender)}
-        </div>
-        <div className="flex-1 min-w-0">
-          <div className="flex items-center gap-2">
-            <p className="text-sm font-medium text-gray-900 truncate">{email.sender}</p>
-            {email.category && (
-              <Badge variant="secondary" className={`text-xs ${getCategoryColor(email.category)}`}>
-                {email.category}
-              </Badge>
-            )}
-          </div>
-          <p className="text-sm text-gray-900 truncate mt-0.5">{email.subject}</p>
-          <p className="text-xs text-gray-500 truncate mt-1">{email.snippet}</p>
-          <p className="text-xs text-gray-400 mt-1">{formatDate(email.date)}</p>
-        </div>
-      </div>
-    </div>
+  const account = accounts.activeAccount
+  const location = useLocation()
+  const navigate = useNavigate()
+  const { threadId: threadParam, entryId: entryParam } = useParams()
+  const activeTab = getWorkspaceTab(location.pathname)
+  const {
+    entries: activityLog,
+    loading: activityLoading,
+    error: activityError,
+    addEntry: addActivityLog,
+    updateEntry: updateActivityEntry
+  } = useActivityHistory(account.id)
+  const [storedSettings] = useState(() => loadSettings(account.id))
+  const [savedSettings, setSavedSettings] = useState<CleanupSettings>(storedSettings.settings)
+  const [settingsDirty, setSettingsDirty] = useState(false)
+  // Account change held back until unsaved settings are discarded
+  const [pendingAccountChange, setPendingAccountChange] = useState<(() => void) | null>(null)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  // Repairs made to stored settings on load, or the outcome of an import
+  const [settingsNotice, setSettingsNotice] = useState<SettingsNotice | null>(() =>
+    storedSettings.issues.length > 0
+      ? { title: 'Stored settings were repaired', issues: storedSettings.issues, variant: 'warning' }
+      : null
   )
-}
-
-export default function Home() {
-  const [activeTab, setActiveTab] = useState('dashboard')
-  const [activityLog, setActivityLog] = useState<ActivityLog[]>([])
-  const [settings, setSettings] = useState<CleanupSettings>(loadSettings())
 
   // Chat state
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const {
+    threads: chatThreads,
+    activeThread,
+    createThread,
+    selectThread,
+    deleteThread,
+    appendMessages,
+    setEmailPreviews,
+    setConfirmationRequired,
+    setCriteria,
+    setHasAttachment
+  } = useChatThreads({ agentId: DYNAMIC_CLEANER_BOT_ID, accountId: account.id })
+  const emailPreviews = activeThread.emailPreviews
+  const selectableEmails = emailPreviews.filter(e => !getProtectionMatch(e, savedSettings.safelist))
   const [chatInput, setChatInput] = useState('')
   const [chatLoading, setChatLoading] = useState(false)
-  const [emailPreviews, setEmailPreviews] = useState<EmailPreview[]>([])
+  // Set while a chat turn is in flight, so the composer can stop it
+  const [chatAbort, setChatAbort] = useState<AbortController | null>(null)
+  // The bot's reply and tool calls while they stream in
+  const [streamingReply, setStreamingReply] = useState<StreamingReplyState | null>(null)
   const [selectedEmails, setSelectedEmails] = useState<Set<string>>(new Set())
   const [chatError, setChatError] = useState<string | null>(null)
+  const [pendingDeletion, setPendingDeletion] = useState<EmailPreview[] | null>(null)
+  const [restoringEntryId, setRestoringEntryId] = useState<string | null>(null)
 
   // Periodic cleanup state
   const [periodicLoading, setPeriodicLoading] = useState(false)
   const [periodicError, setPeriodicError] = useState<string | null>(null)
   const [settingsSaved, setSettingsSaved] = useState(false)
+  const [dryRunReport, setDryRunReport] = useState<DryRunResult | null>(null)
+  const [ruleResults, setRuleResults] = useState<StoredRuleResults | null>(() => loadRuleResults(account.id))
+  const [limitViolation, setLimitViolation] = useState<(DeletionLimitCheck & { timestamp: string }) | null>(null)
+
+  // Live agent status for the header; runs report the tool errors they hit
+  const {
+    health: agentHealth,
+    checking: healthChecking,
+    checkNow: checkAgentHealth,
+    reportErrors: reportAgentErrors
+  } = useAgentHealth()
+
+  // Every preview shown feeds the sender analytics
+  const { index: senderIndex, recordEmails } = useSenderIndex(account.id)
+  const knownSenders = useMemo(() => rankSenders(senderIndex, 'volume').map(s => s.address), [senderIndex])
+  useEffect(() => {
+    recordEmails(emailPreviews)
+  }, [emailPreviews, recordEmails])
 
-  // Load activity log on mount
+  const showTab = (tab: WorkspaceTab) => navigate(tabPath(tab, activeThread.id))
+
+  // /chat/:threadId opens that thread; the URL follows threads that are
+  // created or deleted, and unknown ids fall back to the active thread
+  const syncedThreadParam = useRef<string | undefined>(undefined)
   useEffect(() => {
-    setActivityLog(loadActivityLog())
-  }, [])
+    if (activeTab !== 'chat') return
+    if (threadParam !== syncedThreadParam.current) {
+      syncedThreadParam.current = threadParam
+      if (threadParam && threadParam !== activeThread.id && chatThreads.some(t => t.id === threadParam)) {
+        selectThread(threadParam)
+        return
+      }
+    }
+    if (threadParam !== activeThread.id) {
+      navigate(chatPath(activeThread.id), { replace: true })
+    }
+  }, [activeTab, threadParam, activeThread.id, chatThreads, selectThread, navigate])
 
-  // Save settings to localStorage
-  const saveSettings = () => {
-    try {
-      localStorage.setItem('gmail_cleanup_settings', JSON.stringify(settings))
-      setSettingsSaved(true)
-      setTimeout(() => setSettingsSaved(false), 3000)
-    } catch (e) {
-      console.error('Failed to save settings:', e)
+  // Links to activity entries that no longer exist land on the dashboard
+  useEffect(() => {
+    if (entryParam && !activityLoading && !activityLog.some(entry => entry.id === entryParam)) {
+      navigate(DASHBOARD_PATH, { replace: true })
     }
+  }, [entryParam, activityLoading, activityLog, navigate])
+
+  // Selection belongs to the previews of the thread being viewed
+  useEffect(() => {
+    setSelectedEmails(new Set())
+    setChatError(null)
+  }, [activeThread.id])
+
+  // Save settings to localStorage
+  const saveSettings = (values: CleanupSettings) => {
+    if (!storeSettings(values, account.id)) return false
+    setSavedSettings(values)
+    setSettingsSaved(true)
+    setTimeout(() => setSettingsSaved(false), 3000)
+    return true
   }
 
-  // Add activity log entry
-  const addActivityLog = (action: string, emailsDeleted: number, status: 'success' | 'error') => {
-    const newLog: ActivityLog = {
-      id: Date.now().toString(),
-      timestamp: new Date().toISOString(),
-      action,
-      emailsDeleted,
-      status
+  // Switching accounts remounts the workspace, which would drop unsaved edits
+  const guardUnsavedSettings = (change: () => void) => {
+    if (settingsDirty) {
+      setPendingAccountChange(() => change)
+    } else {
+      change()
     }
-    const updatedLogs = [newLog, ...activityLog].slice(0, 50) // Keep last 50
-    setActivityLog(updatedLogs)
-    saveActivityLog(updatedLogs)
   }
 
   // Send chat message
   const sendChatMessage = async () => {
     if (!chatInput.trim() || chatLoading) return
 
+    const thread = activeThread
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
@@ -386,16 +257,99 @@ export default function Home() {
       timestamp: new Date().toISOString()
     }
 
-    setChatMessages(prev => [...prev, userMessage])
+    // Slash commands are parsed here and sent as structured criteria
+    if (isSlashCommand(chatInput)) {
+      const query = parseQuery(chatInput)
+      if (query.errors.length > 0) {
+        setChatError(query.errors.map(error => error.message).join('. '))
+        return
+      }
+
+      setChatInput('')
+      // A /delete is only a preview while confirmation is required
+      const previewOnly = query.command === 'find' || savedSettings.requireConfirmation
+      const message = buildQueryMessage(query, { previewOnly })
+      setHasAttachment(thread.id, query.hasAttachment)
+      await askCleanerBot(thread, userMessage, withSafelistConstraint(message, savedSettings.safelist), {
+        retryable: previewOnly
+      })
+      return
+    }
+
+    // Deletions must go through the review dialog, never straight to the agent
+    const wantsDelete = hasDeleteIntent(chatInput) ||
+      (!!thread.confirmationRequired && isAffirmative(chatInput))
+    if (savedSettings.requireConfirmation && wantsDelete) {
+      if (emailPreviews.length === 0) {
+        setChatError('Deleting without a preview is blocked while confirmation is required. Ask to see the matching emails first, then delete them from the preview.')
+        return
+      }
+
+      appendMessages(thread.id, userMessage, {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: 'Please review the emails in the preview before anything is deleted. To delete a different set, ask me to show it first.',
+        timestamp: new Date().toISOString()
+      })
+      setChatInput('')
+      setChatError(null)
+      requestDeletion(selectedEmails.size > 0
+        ? selectableEmails.filter(e => selectedEmails.has(e.id))
+        : selectableEmails
+      )
+      return
+    }
+
     setChatInput('')
+    setHasAttachment(thread.id, false)
+    await askCleanerBot(thread, userMessage, withSafelistConstraint(chatInput, savedSettings.safelist), {
+      retryable: !wantsDelete
+    })
+  }
+
+  // Post a user turn to the active thread and apply the bot's reply.
+  // Turns that may delete emails are not retryable, so they never run twice.
+  const askCleanerBot = async (
+    thread: ChatThread,
+    userMessage: ChatMessage,
+    message: string,
+    { retryable = true }: { retryable?: boolean } = {}
+  ) => {
+    appendMessages(thread.id, userMessage)
     setChatLoading(true)
     setChatError(null)
+    const controller = new AbortController()
+    setChatAbort(controller)
+    setStreamingReply({ threadId: thread.id, text: '', tools: [] })
 
     try {
-      const result = await callAIAgent(chatInput, DYNAMIC_CLEANER_BOT_ID)
+      const result = await streamAIAgent(withAccountContext(message, account), DYNAMIC_CLEANER_BOT_ID, {
+        session_id: thread.sessionId,
+        user_id: thread.userId,
+        account_id: account.id,
+        retryable,
+        signal: controller.signal,
+        onText: (text) => setStreamingReply(prev => prev && { ...prev, text: getStreamingMessage(text) }),
+        onEvent: (event) => setStreamingReply(prev => prev && { ...prev, tools: applyToolEvent(prev.tools, event) }),
+        schema: DYNAMIC_CLEANER_BOT_SCHEMA
+      })
+
+      if (result.outcome === 'cancelled') {
+        // Stopping only stops waiting; a reply already in progress may still act
+        appendMessages(thread.id, {
+          id: (Date.now() + 1).toString(),
+          role: 'assistant',
+          content: 'Stopped. If the request had already reached the assistant, it may still finish.',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
 
-      if (result.success && result.response.status === 'success') {
-        const data = result.response.result as DynamicCleanerBotResponse
+      // The bot reports missing tools in its reply rather than an errors list
+      reportAgentErrors(DYNAMIC_CLEANER_BOT_ID, [result.error, result.response.message, result.response.result?.message])
+
+      if (result.data) {
+        const data = result.data
 
         // Add assistant message
         const assistantMessage: ChatMessage = {
@@ -404,23 +358,54 @@ export default function Home() {
           content: data.message,
           timestamp: new Date().toISOString()
         }
-        setChatMessages(prev => [...prev, assistantMessage])
+        appendMessages(thread.id, assistantMessage)
+        setConfirmationRequired(thread.id, !!data.confirmation_required)
+        if (data.criteria_identified) setCriteria(thread.id, data.criteria_identified)
 
         // Update email previews if any
         if (data.email_preview && data.email_preview.length > 0) {
-          setEmailPreviews(data.email_preview)
+          setEmailPreviews(thread.id, data.email_preview)
           setSelectedEmails(new Set())
         } else {
-          setEmailPreviews([])
+          setEmailPreviews(thread.id, [])
         }
 
         // Add to activity log if emails were deleted
         if (data.emails_deleted > 0) {
-          addActivityLog(
-            `Chat cleanup: ${data.criteria_identified.category || 'emails'}`,
-            data.emails_deleted,
-            'success'
-          )
+          addActivityLog({
+            action: `Chat cleanup: ${data.criteria_identified.category || data.criteria_identified.sender || 'emails'}`,
+            emailsDeleted: data.emails_deleted,
+            status: 'success',
+            source: 'chat',
+            criteria: data.criteria_identified,
+            deletedIds: data.deleted_email_ids,
+            response: data
+          })
+        }
+      } else if (result.validation) {
+        // Show what the bot said, but don't act on a reply missing fields
+        const reply = result.response.result
+        setChatError(result.error)
+        appendMessages(thread.id, {
+          id: (Date.now() + 1).toString(),
+          role: 'assistant',
+          content: typeof reply?.message === 'string' && reply.message
+            ? reply.message
+            : 'The assistant\'s reply was incomplete, so nothing was updated. Please try again.',
+          timestamp: new Date().toISOString()
+        })
+
+        // Deletions still belong in the history, where they can be restored
+        if (typeof reply?.emails_deleted === 'number' && reply.emails_deleted > 0) {
+          addActivityLog({
+            action: 'Chat cleanup',
+            emailsDeleted: reply.emails_deleted,
+            status: 'success',
+            source: 'chat',
+            deletedIds: Array.isArray(reply.deleted_email_ids) ? reply.deleted_email_ids : undefined,
+            errors: [result.error],
+            response: reply
+          })
         }
       } else {
         const errorMsg = result.error || result.response.message || 'Failed to process request'
@@ -432,7 +417,7 @@ export default function Home() {
           content: errorMsg,
           timestamp: new Date().toISOString()
         }
-        setChatMessages(prev => [...prev, errorMessage])
+        appendMessages(thread.id, errorMessage)
       }
     } catch (e) {
       const errorMsg = 'Network error. Please try again.'
@@ -444,38 +429,129 @@ export default function Home() {
         content: errorMsg,
         timestamp: new Date().toISOString()
       }
-      setChatMessages(prev => [...prev, errorMessage])
+      appendMessages(thread.id, errorMessage)
     } finally {
+      setChatAbort(null)
+      setStreamingReply(null)
       setChatLoading(false)
     }
   }
 
-  // Delete selected emails
-  const deleteSelectedEmails = async () => {
-    if (selectedEmails.size === 0) return
+  const stopChatRequest = () => {
+    chatAbort?.abort()
+  }
+
+  // Clean out one sender from the sender analytics, reviewing first if required
+  const cleanSender = async (address: string) => {
+    if (chatLoading) return
+
+    showTab('chat')
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: savedSettings.requireConfirmation
+        ? `Show all emails from ${address} so I can clean them out`
+        : `Clean all emails from ${address}`,
+      timestamp: new Date().toISOString()
+    }
+    const message = buildSenderCleanupMessage(address, { previewOnly: savedSettings.requireConfirmation })
+    setHasAttachment(activeThread.id, false)
+    await askCleanerBot(activeThread, userMessage, withSafelistConstraint(message, savedSettings.safelist), {
+      retryable: savedSettings.requireConfirmation
+    })
+  }
+
+  // Re-query the preview after a criteria chip was edited
+  const refineCriteria = async (criteria: CriteriaIdentified) => {
+    if (chatLoading) return
 
+    const thread = activeThread
+    setCriteria(thread.id, criteria)
+    // Editing a chip keeps the attachment filter the chips don't show
+    const hasAttachment = !!thread.hasAttachment
+    const gmailQuery = toCriteriaGmailQuery(criteria, hasAttachment)
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: gmailQuery ? `Refine search: ${gmailQuery}` : 'Refine search: all emails',
+      timestamp: new Date().toISOString()
+    }
+    const message = buildCriteriaMessage(criteria, { previewOnly: true, hasAttachment })
+    await askCleanerBot(thread, userMessage, withSafelistConstraint(message, savedSettings.safelist))
+  }
+
+  // Delete emails by ID through the dynamic cleaner bot
+  // Remove only the previews a delete reply confirms, so emails it didn't
+  // delete stay listed and can be retried. Returns the shortfall, if any.
+  const applyDeletedIds = (
+    threadId: string,
+    requestedIds: string[],
+    listedIds: string[] | null,
+    deletedCount: number
+  ): string | null => {
+    if (!listedIds) {
+      return `The assistant reported ${deletedCount} of ${requestedIds.length} emails deleted but didn't list which, so the preview is unchanged.`
+    }
+    const deleted = new Set(listedIds)
+    setEmailPreviews(threadId, prev => prev.filter(e => !deleted.has(e.id)))
+    setSelectedEmails(prev => new Set([...prev].filter(id => !deleted.has(id))))
+    const missing = requestedIds.filter(id => !deleted.has(id)).length
+    return missing > 0
+      ? `${missing} of ${requestedIds.length} emails weren't deleted and are still listed.`
+      : null
+  }
+
+  // Ids a delete reply lists, or null when it only gives a count
+  const getListedIds = (reply: any, deletedCount: number): string[] | null => {
+    if (!Array.isArray(reply?.deleted_email_ids)) return null
+    const ids = reply.deleted_email_ids.filter((id: unknown) => typeof id === 'string')
+    return ids.length > 0 || deletedCount === 0 ? ids : null
+  }
+
+  const deleteEmails = async (candidates: EmailPreview[], confirmed: boolean) => {
+    // Protected emails never leave the client, even if they were selected earlier
+    const emails = partitionProtected(candidates, savedSettings.safelist).deletable
+    if (emails.length === 0) return
+
+    const thread = activeThread
+    const emailIds = emails.map(e => e.id)
     setChatLoading(true)
     setChatError(null)
 
     try {
-      const emailIds = Array.from(selectedEmails)
-      const message = `Delete these specific emails: ${emailIds.join(', ')}`
-
-      const result = await callAIAgent(message, DYNAMIC_CLEANER_BOT_ID)
-
-      if (result.success && result.response.status === 'success') {
-        const data = result.response.result as DynamicCleanerBotResponse
+      const message = withSafelistConstraint(
+        `Delete these specific emails: ${emailIds.join(', ')}. Move them to Trash and list the ids you deleted in deleted_email_ids.`,
+        savedSettings.safelist
+      )
+
+      const result = await callAIAgent(withAccountContext(message, account), DYNAMIC_CLEANER_BOT_ID, {
+        session_id: thread.sessionId,
+        user_id: thread.userId,
+        account_id: account.id,
+        retryable: false,
+        schema: DYNAMIC_CLEANER_BOT_SCHEMA
+      })
+
+      if (result.data) {
+        const data = result.data
+        const listedIds = getListedIds(data, data.emails_deleted)
 
         // Add activity log
-        addActivityLog(
-          `Deleted ${selectedEmails.size} selected emails`,
-          data.emails_deleted,
-          'success'
-        )
-
-        // Remove deleted emails from preview
-        setEmailPreviews(prev => prev.filter(e => !selectedEmails.has(e.id)))
-        setSelectedEmails(new Set())
+        addActivityLog({
+          action: confirmed
+            ? `Deleted ${data.emails_deleted} emails (confirmed)`
+            : `Deleted ${data.emails_deleted} selected emails`,
+          emailsDeleted: data.emails_deleted,
+          status: 'success',
+          source: 'chat',
+          criteria: data.criteria_identified,
+          deletedIds: listedIds ?? (data.emails_deleted >= emailIds.length ? emailIds : undefined),
+          response: data
+        })
+
+        const shortfall = applyDeletedIds(thread.id, emailIds, listedIds, data.emails_deleted)
+        if (shortfall) setChatError(shortfall)
+        setConfirmationRequired(thread.id, false)
 
         // Add confirmation message
         const confirmMessage: ChatMessage = {
@@ -484,93 +560,350 @@ export default function Home() {
           content: `Successfully deleted ${data.emails_deleted} emails.`,
           timestamp: new Date().toISOString()
         }
-        setChatMessages(prev => [...prev, confirmMessage])
+        appendMessages(thread.id, confirmMessage)
       } else {
-        setChatError(result.error || 'Failed to delete emails')
+        // An unreadable reply still means the bot took the request
+        const errorMsg = result.validation && result.response.status === 'success'
+          ? `The emails may have been deleted, but the reply couldn't be read. ${result.error}`
+          : result.error || 'Failed to delete emails'
+        setChatError(errorMsg)
+
+        // Deletions the reply does report still belong in the history, where they can be restored
+        const reply = result.validation ? result.response.result : null
+        const reportedCount = typeof reply?.emails_deleted === 'number'
+          ? reply.emails_deleted
+          : getListedIds(reply, 0)?.length ?? 0
+        if (reportedCount > 0) {
+          const listedIds = getListedIds(reply, reportedCount)
+          addActivityLog({
+            action: confirmed
+              ? `Deleted ${reportedCount} emails (confirmed)`
+              : `Deleted ${reportedCount} selected emails`,
+            emailsDeleted: reportedCount,
+            status: 'success',
+            source: 'chat',
+            deletedIds: listedIds ?? (reportedCount >= emailIds.length ? emailIds : undefined),
+            errors: [result.error],
+            response: reply
+          })
+
+          const shortfall = applyDeletedIds(thread.id, emailIds, listedIds, reportedCount)
+          if (shortfall) setChatError(`${errorMsg} ${shortfall}`)
+          setConfirmationRequired(thread.id, false)
+        } else if (confirmed) {
+          addActivityLog({
+            action: `Confirmed deletion of ${emails.length} emails failed`,
+            emailsDeleted: 0,
+            status: 'error',
+            source: 'chat',
+            errors: [errorMsg],
+            response: result.response
+          })
+        }
       }
     } catch (e) {
       setChatError('Network error. Please try again.')
+      if (confirmed) {
+        addActivityLog({
+          action: `Confirmed deletion of ${emails.length} emails failed`,
+          emailsDeleted: 0,
+          status: 'error',
+          source: 'chat',
+          errors: [e instanceof Error ? e.message : 'Network error']
+        })
+      }
     } finally {
       setChatLoading(false)
     }
   }
 
-  // Toggle email selection
-  const toggleEmailSelection = (emailId: string) => {
-    setSelectedEmails(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(emailId)) {
-        newSet.delete(emailId)
+  // Route a deletion through the review dialog when confirmation is required
+  const requestDeletion = (candidates: EmailPreview[]) => {
+    const { deletable: emails, protectedEmails } = partitionProtected(candidates, savedSettings.safelist)
+    if (protectedEmails.length > 0) {
+      appendMessages(activeThread.id, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: `Skipped ${protectedEmails.length} protected ${protectedEmails.length === 1 ? 'email' : 'emails'} from your safelist.`,
+        timestamp: new Date().toISOString()
+      })
+    }
+    if (emails.length === 0) return
+
+    if (savedSettings.requireConfirmation) {
+      setPendingDeletion(emails)
+    } else {
+      deleteEmails(emails, false)
+    }
+  }
+
+  // Delete selected emails
+  const deleteSelectedEmails = () => {
+    requestDeletion(selectableEmails.filter(e => selectedEmails.has(e.id)))
+  }
+
+  const confirmPendingDeletion = () => {
+    const emails = pendingDeletion
+    setPendingDeletion(null)
+    if (emails) deleteEmails(emails, true)
+  }
+
+  const cancelPendingDeletion = () => {
+    if (pendingDeletion) {
+      addActivityLog({
+        action: `Cancelled deletion of ${pendingDeletion.length} emails`,
+        emailsDeleted: 0,
+        status: 'cancelled',
+        source: 'chat'
+      })
+    }
+    setPendingDeletion(null)
+  }
+
+  // Ask the cleaner bot to move an entry's deleted emails back out of Trash
+  const restoreActivity = async (entry: ActivityLog) => {
+    const messageIds = getRestorableIds(entry)
+    if (messageIds.length === 0 || restoringEntryId) return
+
+    setRestoringEntryId(entry.id)
+    let results: RestoreResult[]
+
+    try {
+      const result = await callAIAgent(
+        withAccountContext(buildRestoreMessage(messageIds), account),
+        DYNAMIC_CLEANER_BOT_ID,
+        { account_id: account.id }
+      )
+      // Restore replies don't carry the preview fields; the mapper checks each result
+      if (result.success && result.response.status === 'success') {
+        results = mapRestoreResults(messageIds, result.response.result.restore_results)
       } else {
-        newSet.add(emailId)
+        results = failedRestoreResults(messageIds, result.error || result.response.message || 'Restore failed')
+      }
+    } catch (e) {
+      results = failedRestoreResults(messageIds, 'Network error. Please try again.')
+    } finally {
+      setRestoringEntryId(null)
+    }
+
+    updateActivityEntry({
+      ...entry,
+      restore: {
+        timestamp: new Date().toISOString(),
+        results: mergeRestoreResults(entry.restore?.results, results)
       }
-      return newSet
     })
   }
 
   // Select all emails
   const selectAllEmails = () => {
-    if (selectedEmails.size === emailPreviews.length) {
+    if (selectedEmails.size > 0 && selectedEmails.size === selectableEmails.length) {
       setSelectedEmails(new Set())
     } else {
-      setSelectedEmails(new Set(emailPreviews.map(e => e.id)))
+      setSelectedEmails(new Set(selectableEmails.map(e => e.id)))
     }
   }
 
-  // Run cleanup now (periodic agent)
-  const runCleanupNow = async () => {
-    setPeriodicLoading(true)
-    setPeriodicError(null)
+  // Keep the latest per-rule outcomes so the rule builder can show them
+  const recordRuleResults = (data: PeriodicResponse, dryRun: boolean) => {
+    if (!Array.isArray(data?.rules_results)) return
+    const stored: StoredRuleResults = {
+      results: data.rules_results,
+      timestamp: new Date().toISOString(),
+      dryRun
+    }
+    saveRuleResults(stored, account.id)
+    setRuleResults(stored)
+  }
 
-    try {
-      const message = `Run cleanup with settings: promotional=${settings.promotional}, old_emails=${settings.oldEmails}, age_threshold=${settings.ageThreshold} days`
+  // Run the periodic agent; shared by the manual button and the scheduler
+  const runPeriodicCleanup = async (
+    runSettings: CleanupSettings,
+    trigger: 'manual' | ScheduleTrigger
+  ): Promise<PeriodicResponse | null> => {
+    const label = trigger === 'catch-up'
+      ? 'Missed scheduled cleanup'
+      : trigger === 'scheduled' ? 'Automatic cleanup' : 'Scheduled cleanup'
 
-      const result = await callAIAgent(message, PERIODIC_AGENT_ID)
+    setPeriodicLoading(true)
+    setPeriodicError(null)
 
-      if (result.success && result.response.status === 'success') {
-        const data = result.response.result as PeriodicResponse
+    const source = trigger === 'manual' ? 'manual' : 'scheduled'
+    const request = buildPeriodicRequest(runSettings, {
+      mode: 'execute',
+      trigger,
+      account: toAgentAccount(account)
+    })
 
-        addActivityLog(
-          'Scheduled cleanup executed',
-          data.cleanup_summary.total_emails_deleted,
-          'success'
-        )
+    try {
+      const message = serializePeriodicRequest(request)
+
+      // A real run deletes emails, so it is never repeated automatically
+      const result = await callAIAgent(message, PERIODIC_AGENT_ID, {
+        account_id: account.id,
+        retryable: false,
+        schema: PERIODIC_CLEANER_SCHEMA
+      })
+      if (result.success || result.validation) reportAgentErrors(PERIODIC_AGENT_ID, result.response.result?.errors)
+
+      if (result.data) {
+        const data = result.data
+        recordRuleResults(data, false)
+
+        const limitCheck = checkDeletionLimit(data, runSettings)
+        if (limitCheck.exceeded) {
+          setLimitViolation({ ...limitCheck, timestamp: new Date().toISOString() })
+        }
 
-        // Switch to dashboard to show results
-        setActiveTab('dashboard')
+        addActivityLog({
+          action: `${label} executed`,
+          emailsDeleted: data.cleanup_summary.total_emails_deleted,
+          status: 'success',
+          source,
+          criteria: { ...request.settings },
+          deletedIds: data.deleted_email_ids,
+          errors: data.errors,
+          response: data
+        })
+        return data
       } else {
-        setPeriodicError(result.error || 'Cleanup failed')
-        addActivityLog('Scheduled cleanup failed', 0, 'error')
+        const errorMsg = result.error || 'Cleanup failed'
+        setPeriodicError(errorMsg)
+        const reply = result.response.result
+        const replyErrors: string[] = Array.isArray(reply?.errors) ? reply.errors : []
+
+        // A reply that failed validation may still report deletions; they
+        // are logged so they can be restored, and held to the run's limit
+        const deletedIds: string[] = result.validation && Array.isArray(reply?.deleted_email_ids)
+          ? reply.deleted_email_ids.filter((id: unknown) => typeof id === 'string')
+          : []
+        const reportedCount = reply?.cleanup_summary?.total_emails_deleted
+        const deletedCount = result.validation && typeof reportedCount === 'number' ? reportedCount : deletedIds.length
+        if (deletedCount > 0) {
+          const limitCheck = checkDeletionLimit(
+            { ...reply, cleanup_summary: { ...reply.cleanup_summary, total_emails_deleted: deletedCount } } as PeriodicResponse,
+            runSettings
+          )
+          if (limitCheck.exceeded) {
+            setLimitViolation({ ...limitCheck, timestamp: new Date().toISOString() })
+          }
+
+          addActivityLog({
+            action: `${label} executed`,
+            emailsDeleted: deletedCount,
+            status: 'success',
+            source,
+            criteria: { ...request.settings },
+            deletedIds: deletedIds.length > 0 ? deletedIds : undefined,
+            errors: [errorMsg, ...replyErrors],
+            response: reply
+          })
+          return null
+        }
+
+        addActivityLog({
+          action: `${label} failed`,
+          emailsDeleted: 0,
+          status: 'error',
+          source,
+          criteria: { ...request.settings },
+          errors: [errorMsg, ...replyErrors],
+          response: reply
+        })
+        return null
       }
     } catch (e) {
       setPeriodicError('Network error. Please try again.')
-      addActivityLog('Scheduled cleanup failed', 0, 'error')
+      addActivityLog({
+        action: `${label} failed`,
+        emailsDeleted: 0,
+        status: 'error',
+        source,
+        criteria: { ...request.settings },
+        errors: [e instanceof Error ? e.message : 'Network error']
+      })
+      return null
     } finally {
       setPeriodicLoading(false)
     }
   }
 
+  // Run cleanup now (periodic agent)
+  const runCleanupNow = async () => {
+    const data = await runPeriodicCleanup(savedSettings, 'manual')
+    if (data) {
+      // Switch to dashboard to show results
+      showTab('dashboard')
+    }
+  }
+
+  // Scheduled runs use the saved settings, not unsaved edits in the form
+  const {
+    schedule,
+    drift,
+    running: scheduledRunActive,
+    pending: scheduledRunPending,
+    runPending: runPendingCleanup,
+    skipPending: skipPendingCleanup
+  } = useCleanupScheduler({
+    accountId: account.id,
+    settings: savedSettings,
+    busy: periodicLoading,
+    holdOverdue: holdOverdueRuns,
+    onRun: async (trigger) => {
+      const data = await runPeriodicCleanup(savedSettings, trigger)
+      return { success: !!data, agentNextRun: data?.next_scheduled_run }
+    }
+  })
+
   // Test run (same as run cleanup but with test flag)
-  const testRunCleanup = async () => {
+  const testRunCleanup = async (testSettings: CleanupSettings) => {
     setPeriodicLoading(true)
     setPeriodicError(null)
 
-    try {
-      const message = `Test cleanup (dry run) with settings: promotional=${settings.promotional}, old_emails=${settings.oldEmails}, age_threshold=${settings.ageThreshold} days. Do not delete, just show what would be deleted.`
+    const request = buildPeriodicRequest(testSettings, {
+      mode: 'dry_run',
+      trigger: 'test',
+      account: toAgentAccount(account)
+    })
 
-      const result = await callAIAgent(message, PERIODIC_AGENT_ID)
+    try {
+      const message = serializePeriodicRequest(request)
+
+      const result = await callAIAgent(message, PERIODIC_AGENT_ID, {
+        account_id: account.id,
+        schema: PERIODIC_CLEANER_SCHEMA
+      })
+      if (result.success || result.validation) reportAgentErrors(PERIODIC_AGENT_ID, result.response.result?.errors)
+
+      // Failed and incomplete runs still carry per-rule results and errors
+      // worth showing; the report reads every field defensively
+      if ((result.success || result.validation) && Array.isArray(result.response.result?.rules_results)) {
+        const partial = result.data ?? result.response.result as PeriodicResponse
+        recordRuleResults(partial, true)
+        setDryRunReport({
+          settings: testSettings,
+          data: partial,
+          status: result.response.status,
+          timestamp: new Date().toISOString()
+        })
+      }
 
-      if (result.success && result.response.status === 'success') {
-        const data = result.response.result as PeriodicResponse
+      if (result.data) {
+        const data = result.data
 
         // Show test results in activity
-        addActivityLog(
-          `Test run: would delete ${data.cleanup_summary.total_emails_processed} emails`,
-          0,
-          'success'
-        )
+        addActivityLog({
+          action: `Test run: would delete ${data.cleanup_summary.total_emails_processed} emails`,
+          emailsDeleted: 0,
+          status: 'success',
+          source: 'test',
+          criteria: { ...request.settings },
+          errors: data.errors,
+          response: data
+        })
       } else {
-        setPeriodicError(result.error || 'Test run failed')
+        setPeriodicError(result.error || result.response.message || 'Test run failed')
       }
     } catch (e) {
       setPeriodicError('Network error. Please try again.')
@@ -579,6 +912,115 @@ export default function Home() {
     }
   }
 
+  // Re-run the dry run's settings for real
+  const promoteDryRun = async () => {
+    if (!dryRunReport) return
+
+    const data = await runPeriodicCleanup(dryRunReport.settings, 'manual')
+    if (data) {
+      setDryRunReport(null)
+      showTab('dashboard')
+    }
+  }
+
+  // Flip one rule from the command palette and save it right away
+  const toggleRule = (ruleId: string) => {
+    if (settingsDirty) return
+    saveSettings({
+      ...savedSettings,
+      rules: savedSettings.rules.map(rule => (rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule))
+    })
+  }
+
+  // Shared by the keyboard shortcuts and the command palette
+  const shortcutHandlers: ShortcutHandlers = {
+    openPalette: () => setPaletteOpen(open => !open),
+    showShortcuts: () => setShortcutsOpen(true),
+    goDashboard: () => showTab('dashboard'),
+    goChat: () => showTab('chat'),
+    goSettings: () => showTab('settings'),
+    runCleanup: () => {
+      if (!periodicLoading) runCleanupNow()
+    },
+    // The report shows on the settings view; runs what is saved, not unsaved edits
+    dryRun: () => {
+      if (periodicLoading) return
+      showTab('settings')
+      testRunCleanup(savedSettings)
+    },
+    selectAll: () => {
+      if (selectableEmails.length === 0) return
+      showTab('chat')
+      selectAllEmails()
+    },
+    deleteSelection: () => {
+      if (selectedEmails.size === 0 || chatLoading) return
+      showTab('chat')
+      deleteSelectedEmails()
+    }
+  }
+  const {
+    bindings: shortcutBindings,
+    setBinding: setShortcutBinding,
+    resetBindings: resetShortcutBindings
+  } = useKeyboardShortcuts(shortcutHandlers)
+
+  const workspace: Workspace = {
+    showTab,
+    savedSettings,
+    activityLog,
+    activityLoading,
+    activityError,
+    restoringEntryId,
+    restoreActivity,
+    schedule,
+    drift,
+    scheduledRunActive,
+    scheduledRunPending,
+    runCleanupNow,
+    senderIndex,
+    cleanSender,
+    chatThreads,
+    activeThread,
+    createThread,
+    deleteThread,
+    chatInput,
+    setChatInput,
+    sendChatMessage,
+    chatLoading,
+    chatError,
+    stopChatRequest: chatAbort ? stopChatRequest : null,
+    streamingReply,
+    knownSenders,
+    refineCriteria,
+    selectableEmails,
+    selectedEmails,
+    setSelectedEmails,
+    selectAllEmails,
+    deleteSelectedEmails,
+    saveSettings,
+    settingsSaved,
+    setSettingsDirty,
+    setSettingsNotice,
+    testRunCleanup,
+    periodicLoading,
+    periodicError,
+    ruleResults,
+    dryRunReport,
+    promoteDryRun,
+    dismissDryRunReport: () => setDryRunReport(null)
+  }
+
+  // The view for the route, loaded on its own. The settings view is kept
+  // while it has unsaved edits, so they survive switching to another view.
+  const view = useOutlet()
+  const settingsView = useRef<ReactNode>(null)
+  if (activeTab === 'settings') {
+    settingsView.current = view
+  } else if (!settingsDirty) {
+    settingsView.current = null
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -595,434 +1037,210 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Badge variant="secondary" className="bg-green-100 text-green-800">
-                <CheckCircle className="h-3 w-3 mr-1" />
-                Connected
-              </Badge>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full max-w-md grid-cols-3 mb-6">
-            <TabsTrigger value="dashboard">
-              <BarChart className="h-4 w-4 mr-2" />
-              Dashboard
-            </TabsTrigger>
-            <TabsTrigger value="chat">
-              <MessageSquare className="h-4 w-4 mr-2" />
-              Chat
-            </TabsTrigger>
-            <TabsTrigger value="settings">
-              <Settings className="h-4 w-4 mr-2" />
-              Settings
-            </TabsTrigger>
-          </TabsList>
-
-          {/* Dashboard Tab */}
-          <TabsContent value="dashboard" className="space-y-6">
-            <DashboardStats activityLog={activityLog} />
-
-            <div className="grid gap-6 md:grid-cols-2">
-              <ActivityLogList activityLog={activityLog} />
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Quick Actions</CardTitle>
-                  <CardDescription>Start cleaning your inbox</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <Button
-                    onClick={() => setActiveTab('chat')}
-                    className="w-full bg-blue-600 hover:bg-blue-700"
-                  >
-                    <MessageSquare className="h-4 w-4 mr-2" />
-                    Start Chat Cleanup
-                  </Button>
-                  <Button
-                    onClick={runCleanupNow}
-                    disabled={periodicLoading}
-                    variant="outline"
-                    className="w-full"
-                  >
-                    {periodicLoading ? (
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : (
-                      <RefreshCw className="h-4 w-4 mr-2" />
-                    )}
-                    Run Cleanup Now
-                  </Button>
-                  {periodicError && (
-                    <p className="text-sm text-red-600">{periodicError}</p>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
-
-          {/* Chat Tab */}
-          <TabsContent value="chat" className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-2">
-              {/* Chat Panel */}
-              <Card className="md:col-span-1">
-                <CardHeader>
-                  <CardTitle>Chat Cleanup</CardTitle>
-                  <CardDescription>Tell me what emails to clean</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <ScrollArea className="h-[400px] pr-4 mb-4">
-                    {chatMessages.length === 0 ? (
-                      <div className="text-center py-12">
-                        <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-3" />
-                        <p className="text-sm text-gray-500">Start a conversation</p>
-                      </div>
-                    ) : (
-                      <div className="space-y-3">
-                        {chatMessages.map(msg => (
-                          <div
-                            key={msg.id}
-                            className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                          >
-                            <div
-                              className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                                msg.role === 'user'
-                                  ? 'bg-blue-600 text-white'
-                                  : 'bg-gray-100 text-gray-900'
-                              }`}
-                            >
-                              <p className="text-sm">{msg.content}</p>
-                              <p className={`text-xs mt-1 ${
-                                msg.role === 'user' ? 'text-blue-100' : 'text-gray-500'
-                              }`}>
-                                {formatTime(msg.timestamp)}
-                              </p>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                  </ScrollArea>
-
-                  {chatError && (
-                    <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
-                      <p className="text-sm text-red-600">{chatError}</p>
-                    </div>
-                  )}
-
-                  <div className="space-y-3">
-                    {/* Suggestion Chips */}
-                    <div className="flex flex-wrap gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setChatInput('Show promotional emails')}
-                        className="text-xs"
-                      >
-                        Show promotional emails
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setChatInput('Emails older than 30 days')}
-                        className="text-xs"
-                      >
-                        Emails older than 30 days
-                      </Button>
-                    </div>
-
-                    {/* Input */}
-                    <div className="flex gap-2">
-                      <Input
-                        placeholder="Type your cleanup request..."
-                        value={chatInput}
-                        onChange={(e) => setChatInput(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter' && !e.shiftKey) {
-                            e.preventDefault()
-                            sendChatMessage()
-                          }
-                        }}
-                        disabled={chatLoading}
-                      />
-                      <Button
-                        onClick={sendChatMessage}
-                        disabled={chatLoading || !chatInput.trim()}
-                        className="bg-blue-600 hover:bg-blue-700"
-                      >
-                        {chatLoading ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          <Send className="h-4 w-4" />
-                        )}
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Email Preview Panel */}
-              <Card className="md:col-span-1">
-                <CardHeader>
-                  <CardTitle>Email Preview</CardTitle>
-                  <CardDescription>
-                    {emailPreviews.length > 0
-                      ? `${emailPreviews.length} emails found`
-                      : 'No emails to preview'
-                    }
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {emailPreviews.length > 0 && (
-                    <div className="mb-4 flex items-center gap-2 pb-3 border-b">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={selectAllEmails}
-                      >
-                        {selectedEmails.size === emailPreviews.length ? 'Deselect All' : 'Select All'}
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={deleteSelectedEmails}
-                        disabled={selectedEmails.size === 0 || chatLoading}
-                        className="bg-red-600 hover:bg-red-700"
-                      >
-                        {chatLoading ? (
-                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        ) : (
-                          <Trash2 className="h-4 w-4 mr-2" />
-                        )}
-                        Delete Selected ({selectedEmails.size})
-                      </Button>
-                    </div>
-                  )}
-
-                  <ScrollArea className="h-[440px] pr-4">
-                    {emailPreviews.length === 0 ? (
-                      <div className="text-center py-12">
-                        <Mail className="h-12 w-12 text-gray-300 mx-auto mb-3" />
-                        <p className="text-sm text-gray-500">Emails will appear here</p>
-                      </div>
-                    ) : (
-                      <div className="space-y-2">
-                        {emailPreviews.map(email => (
-                          <EmailPreviewCard
-                            key={email.id}
-                            email={email}
-                            selected={selectedEmails.has(email.id)}
-                            onToggle={() => toggleEmailSelection(email.id)}
-                          />
-                        ))}
-                      </div>
-                    )}
-                  </ScrollArea>
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
-
-          {/* Settings Tab */}
-          <TabsContent value="settings" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Cleanup Rules</CardTitle>
-                <CardDescription>Configure what types of emails to clean</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label className="text-base">Promotional Emails</Label>
-                    <p className="text-sm text-gray-500">Clean promotional and marketing emails</p>
-                  </div>
-                  <Switch
-                    checked={settings.promotional}
-                    onCheckedChange={(checked) =>
-                      setSettings(prev => ({ ...prev, promotional: checked }))
-                    }
-                  />
-                </div>
-
-                <Separator />
-
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label className="text-base">Old Emails</Label>
-                      <p className="text-sm text-gray-500">Clean emails older than threshold</p>
-                    </div>
-                    <Switch
-                      checked={settings.oldEmails}
-                      onCheckedChange={(checked) =>
-                        setSettings(prev => ({ ...prev, oldEmails: checked }))
-                      }
-                    />
-                  </div>
-                  {settings.oldEmails && (
-                    <div className="ml-0 mt-2">
-                      <Label className="text-sm text-gray-600">Age Threshold</Label>
-                      <Select
-                        value={settings.ageThreshold.toString()}
-                        onValueChange={(value) =>
-                          setSettings(prev => ({ ...prev, ageThreshold: parseInt(value) }))
-                        }
-                      >
-                        <SelectTrigger className="w-full mt-1">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="7">7 days</SelectItem>
-                          <SelectItem value="14">14 days</SelectItem>
-                          <SelectItem value="30">30 days</SelectItem>
-                          <SelectItem value="60">60 days</SelectItem>
-                          <SelectItem value="90">90 days</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Schedule</CardTitle>
-                <CardDescription>Automate your email cleanup</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label className="text-base">Enable Scheduling</Label>
-                    <p className="text-sm text-gray-500">Run cleanup automatically</p>
-                  </div>
-                  <Switch
-                    checked={settings.scheduleEnabled}
-                    onCheckedChange={(checked) =>
-                      setSettings(prev => ({ ...prev, scheduleEnabled: checked }))
-                    }
-                  />
-                </div>
-
-                {settings.scheduleEnabled && (
-                  <>
-                    <Separator />
-                    <div className="space-y-2">
-                      <Label>Frequency</Label>
-                      <Select
-                        value={settings.frequency}
-                        onValueChange={(value) =>
-                          setSettings(prev => ({ ...prev, frequency: value as 'daily' | 'weekly' | 'disabled' }))
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="daily">Daily</SelectItem>
-                          <SelectItem value="weekly">Weekly</SelectItem>
-                          <SelectItem value="disabled">Disabled</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label>Time</Label>
-                      <Input
-                        type="time"
-                        value={settings.scheduleTime}
-                        onChange={(e) =>
-                          setSettings(prev => ({ ...prev, scheduleTime: e.target.value }))
-                        }
-                      />
-                    </div>
-                  </>
-                )}
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Safety Settings</CardTitle>
-                <CardDescription>Protect your important emails</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label className="text-base">Require Confirmation</Label>
-                    <p className="text-sm text-gray-500">Ask before deleting emails</p>
-                  </div>
-                  <Switch
-                    checked={settings.requireConfirmation}
-                    onCheckedChange={(checked) =>
-                      setSettings(prev => ({ ...prev, requireConfirmation: checked }))
-                    }
-                  />
-                </div>
-
-                <Separator />
-
-                <div className="space-y-2">
-                  <Label>Max Emails Per Run</Label>
-                  <Select
-                    value={settings.maxEmailsPerRun.toString()}
-                    onValueChange={(value) =>
-                      setSettings(prev => ({ ...prev, maxEmailsPerRun: parseInt(value) }))
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="50">50 emails</SelectItem>
-                      <SelectItem value="100">100 emails</SelectItem>
-                      <SelectItem value="200">200 emails</SelectItem>
-                      <SelectItem value="500">500 emails</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </CardContent>
-            </Card>
-
-            <div className="flex gap-3">
               <Button
-                onClick={saveSettings}
-                className="flex-1 bg-blue-600 hover:bg-blue-700"
+                variant="outline"
+                size="sm"
+                className="hidden sm:inline-flex gap-2 text-gray-500"
+                onClick={() => setPaletteOpen(true)}
               >
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Save Settings
+                <Search className="h-4 w-4" />
+                Commands
+                {shortcutBindings.openPalette && <ShortcutKeys binding={shortcutBindings.openPalette} />}
               </Button>
               <Button
-                onClick={testRunCleanup}
-                disabled={periodicLoading}
-                variant="outline"
-                className="flex-1"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9"
+                onClick={() => setShortcutsOpen(true)}
+                aria-label="Keyboard shortcuts"
               >
-                {periodicLoading ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Filter className="h-4 w-4 mr-2" />
-                )}
-                Test Run
+                <Keyboard className="h-4 w-4" />
               </Button>
+              <AccountSwitcher
+                accounts={accounts.accounts}
+                activeAccount={account}
+                busy={chatLoading || periodicLoading || scheduledRunActive || !!restoringEntryId}
+                onSwitch={(accountId) => guardUnsavedSettings(() => accounts.switchAccount(accountId))}
+                onAdd={(label, email) => guardUnsavedSettings(() => accounts.addAccount(label, email))}
+                onRemove={accounts.removeAccount}
+              />
+              <AgentHealthIndicator
+                health={agentHealth}
+                checking={healthChecking}
+                onCheckNow={checkAgentHealth}
+              />
             </div>
+          </div>
+        </div>
+      </header>
 
-            {settingsSaved && (
-              <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
-                <p className="text-sm text-green-600">Settings saved successfully!</p>
-              </div>
-            )}
-
-            {periodicError && (
-              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-                <p className="text-sm text-red-600">{periodicError}</p>
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {limitViolation && (
+          <Alert variant="destructive" className="mb-6 bg-red-50">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Deletion limit exceeded</AlertTitle>
+            <AlertDescription className="flex items-start justify-between gap-4">
+              <span>
+                The cleanup on {formatDate(limitViolation.timestamp)} at {formatTime(limitViolation.timestamp)} deleted{' '}
+                {limitViolation.deleted} emails, above the limit of {limitViolation.limit} per run. Review the agent's rules before the next run.
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setLimitViolation(null)}>
+                Dismiss
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {scheduledRunPending && (
+          <Alert className="mb-6 bg-amber-50 border-amber-200">
+            <Clock className="h-4 w-4" />
+            <AlertTitle>Scheduled cleanup is overdue</AlertTitle>
+            <AlertDescription className="flex items-start justify-between gap-4">
+              <span>
+                The cleanup for {getAccountDisplayName(account)} was due{schedule.nextRunAt ? ` on ${formatDate(schedule.nextRunAt)} at ${formatTime(schedule.nextRunAt)}` : ''}.
+                It deletes emails, so it waits for you to start it.
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={runPendingCleanup} disabled={periodicLoading}>
+                  Run now
+                </Button>
+                <Button variant="ghost" size="sm" onClick={skipPendingCleanup}>
+                  Skip
+                </Button>
               </div>
-            )}
-          </TabsContent>
-        </Tabs>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {settingsNotice && (
+          <Alert
+            variant={settingsNotice.variant === 'error' ? 'destructive' : 'default'}
+            className={`mb-6 ${
+              settingsNotice.variant === 'error' ? 'bg-red-50'
+                : settingsNotice.variant === 'warning' ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'
+            }`}
+          >
+            {settingsNotice.variant === 'success' ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertTitle>{settingsNotice.title}</AlertTitle>
+            <AlertDescription className="flex items-start justify-between gap-4">
+              {settingsNotice.issues.length > 0 ? (
+                <ul className="list-disc pl-4 space-y-0.5">
+                  {settingsNotice.issues.map((issue, index) => (
+                    <li key={index}>
+                      {issue.path && <span className="font-mono">{issue.path}</span>}
+                      {issue.path && ': '}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <span>All fields were valid.</span>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setSettingsNotice(null)}>
+                Dismiss
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <WorkspaceContext.Provider value={workspace}>
+          <Tabs value={activeTab} onValueChange={(tab) => showTab(tab as WorkspaceTab)}>
+            <TabsList className="grid w-full max-w-md grid-cols-3 mb-6">
+              <TabsTrigger value="dashboard">
+                <BarChart className="h-4 w-4 mr-2" />
+                Dashboard
+              </TabsTrigger>
+              <TabsTrigger value="chat">
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Chat
+              </TabsTrigger>
+              <TabsTrigger value="settings">
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+                {settingsDirty && (
+                  <span className="ml-1.5 h-1.5 w-1.5 rounded-full bg-amber-500" aria-label="Unsaved changes" />
+                )}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="dashboard" className="space-y-6">
+              <Suspense fallback={<ViewLoader />}>{view}</Suspense>
+            </TabsContent>
+
+            <TabsContent value="chat" className="space-y-4">
+              <Suspense fallback={<ViewLoader />}>{view}</Suspense>
+            </TabsContent>
+
+            {/* Kept mounted while it has unsaved edits, so they survive switching views */}
+            <TabsContent value="settings" forceMount={settingsDirty || undefined} className="space-y-6 data-[state=inactive]:hidden">
+              <Suspense fallback={<ViewLoader />}>{settingsView.current}</Suspense>
+            </TabsContent>
+          </Tabs>
+        </WorkspaceContext.Provider>
       </main>
+
+      <DeleteConfirmationDialog
+        emails={pendingDeletion}
+        onConfirm={confirmPendingDeletion}
+        onCancel={cancelPendingDeletion}
+      />
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        bindings={shortcutBindings}
+        threads={chatThreads}
+        activeThreadId={activeThread.id}
+        rules={savedSettings.rules}
+        cleanupRunning={periodicLoading}
+        selectableCount={selectableEmails.length}
+        selectedCount={selectedEmails.size}
+        settingsDirty={settingsDirty}
+        onAction={(actionId) => shortcutHandlers[actionId]?.()}
+        onOpenThread={(threadId) => navigate(chatPath(threadId))}
+        onToggleRule={toggleRule}
+      />
+
+      <ShortcutHelpSheet
+        open={shortcutsOpen}
+        onOpenChange={setShortcutsOpen}
+        bindings={shortcutBindings}
+        onBind={setShortcutBinding}
+        onReset={resetShortcutBindings}
+      />
+
+      <AlertDialog open={!!pendingAccountChange} onOpenChange={(open) => !open && setPendingAccountChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The settings for {getAccountDisplayName(account)} have changes that were not saved. Switching accounts discards them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep editing</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingAccountChange?.()}>
+              Discard and switch
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
+
+export default function Home() {
+  const accounts = useAccounts()
+  // Only the account open on load catches up missed runs by itself
+  const [initialAccountId] = useState(accounts.activeAccount.id)
+  const [switched, setSwitched] = useState(false)
+  if (!switched && accounts.activeAccount.id !== initialAccountId) setSwitched(true)
+  return (
+    <AccountWorkspace
+      key={accounts.activeAccount.id}
+      accounts={accounts}
+      holdOverdueRuns={switched}
+    />
+  )
+}
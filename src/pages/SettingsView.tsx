@@ -0,0 +1,58 @@
+import SettingsForm from '@/components/SettingsForm'
+import DryRunReport from '@/components/DryRunReport'
+import { useWorkspace } from '@/hooks/useWorkspace'
+
+/**
+ * Cleanup settings with test runs and their report, shown at /settings
+ */
+export default function SettingsView() {
+  const {
+    savedSettings,
+    saveSettings,
+    testRunCleanup,
+    periodicLoading,
+    periodicError,
+    ruleResults,
+    setSettingsDirty,
+    setSettingsNotice,
+    settingsSaved,
+    dryRunReport,
+    promoteDryRun,
+    dismissDryRunReport
+  } = useWorkspace()
+
+  return (
+    <>
+      <SettingsForm
+        savedSettings={savedSettings}
+        onSave={saveSettings}
+        onTestRun={testRunCleanup}
+        testRunning={periodicLoading}
+        ruleResults={ruleResults}
+        onDirtyChange={setSettingsDirty}
+        onNotice={setSettingsNotice}
+      />
+
+      {settingsSaved && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-600">Settings saved successfully!</p>
+        </div>
+      )}
+
+      {periodicError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{periodicError}</p>
+        </div>
+      )}
+
+      {dryRunReport && (
+        <DryRunReport
+          report={dryRunReport}
+          promoting={periodicLoading}
+          onPromote={promoteDryRun}
+          onDismiss={dismissDryRunReport}
+        />
+      )}
+    </>
+  )
+}
@@ -40,6 +40,8 @@ export type SSEEventType =
   | 'commit_created'
   | 'commit_failed'
   | 'workflow_update'
+  // Events sent without a name; streamed replies use them for text
+  | 'message'
   | 'workflow_completed'
   | 'subagent_switch'
   | 'agent_created'
@@ -65,6 +67,30 @@ export interface SSEEventBase {
   _tool_use_id?: string   // Related tool_use_id (for tool_result linking)
 }
 
+/**
+ * Chat progress event - a piece of the reply text as it is generated
+ */
+export interface ChatProgressEvent extends SSEEventBase {
+  type: 'chat_progress'
+  content: string  // Text added since the previous progress event
+}
+
+/**
+ * Chat completed event - the reply is finished
+ */
+export interface ChatCompletedEvent extends SSEEventBase {
+  type: 'chat_completed'
+  response?: unknown  // Full reply, when the server sends it again at the end
+}
+
+/**
+ * Chat failed event - the run stopped with an error
+ */
+export interface ChatFailedEvent extends SSEEventBase {
+  type: 'chat_failed'
+  error: string
+}
+
 /**
  * Tool use event - when Claude calls a tool
  */
@@ -183,6 +209,9 @@ export interface SubagentSwitchEvent extends SSEEventBase {
  * Union type of all SSE events
  */
 export type SSEEvent =
+  | ChatProgressEvent
+  | ChatCompletedEvent
+  | ChatFailedEvent
   | ToolUseEvent
   | ToolResultEvent
   | ToolBlockedEvent
@@ -258,4 +287,219 @@ export function isCriticalEvent(event: SSEEventBase & { type?: SSEEventType }):
     'validation_error',
   ]
   return criticalTypes.includes(event.type as SSEEventType)
-}
\ No newline at end of file
+}
+
+// =============================================================================
+// Gmail Cleaner Types
+// =============================================================================
+
+/**
+ * Criteria the dynamic cleaner bot extracted from a chat request
+ */
+export interface CriteriaIdentified {
+  sender: string | null
+  /** Left out, with category, when the bot acted on email ids rather than a search */
+  date_range?: string
+  category?: string
+  keywords: string[]
+}
+
+/**
+ * Single email returned in a cleaner agent preview
+ */
+export interface EmailPreview {
+  id: string
+  sender: string
+  subject: string
+  date: string
+  snippet: string
+  category?: string
+}
+
+/**
+ * Result payload of the dynamic cleaner bot
+ */
+export interface DynamicCleanerBotResponse {
+  action: string
+  emails_found: number
+  emails_deleted: number
+  criteria_identified: CriteriaIdentified
+  email_preview: EmailPreview[]
+  confirmation_required: boolean
+  message: string
+  /** Gmail message ids the bot moved to Trash, when it reports them */
+  deleted_email_ids?: string[]
+  /** Per-message outcome of a restore request */
+  restore_results?: RestoreResult[]
+}
+
+/**
+ * Outcome of moving one message back out of Trash
+ */
+export interface RestoreResult {
+  message_id: string
+  status: 'restored' | 'failed'
+  error?: string
+}
+
+/**
+ * Outcome of one rule in a periodic cleanup run
+ */
+export interface RuleResult {
+  rule_name: string
+  rule_type: string
+  emails_found: number
+  emails_deleted: number
+  criteria_applied: {
+    label_ids?: string[]
+    days_older_than?: number
+  }
+  status: string
+}
+
+/**
+ * Result payload of the Periodic Cleaner Agent
+ */
+export interface PeriodicResponse {
+  cleanup_summary: {
+    total_emails_processed: number
+    total_emails_deleted: number
+    rules_executed: number
+    execution_time_seconds: number
+  }
+  rules_results: RuleResult[]
+  /** Missing or null when the agent doesn't know the next run */
+  next_scheduled_run?: string | null
+  errors: string[]
+  deleted_email_ids?: string[]
+}
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+}
+
+/**
+ * Persisted dynamic cleaner bot conversation
+ */
+export interface ChatThread {
+  id: string
+  title: string
+  agentId: string
+  /** Sent on every turn so the agent keeps conversation context */
+  sessionId: string
+  userId: string
+  chatMessages: ChatMessage[]
+  emailPreviews: EmailPreview[]
+  /** The last bot reply asked the user to confirm a deletion */
+  confirmationRequired?: boolean
+  /** Criteria behind the current email previews */
+  criteria?: CriteriaIdentified | null
+  /** The request behind the previews asked for has:attachment, which criteria can't hold */
+  hasAttachment?: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type ActivityStatus = 'success' | 'error' | 'cancelled'
+
+/**
+ * What started an activity: the chat, the scheduler (including catch-up
+ * runs), the "Run Cleanup Now" button, or a dry run
+ */
+export type ActivitySource = 'chat' | 'scheduled' | 'manual' | 'test'
+
+export interface ActivityLog {
+  id: string
+  timestamp: string
+  action: string
+  emailsDeleted: number
+  status: ActivityStatus
+  /** Entries migrated from the old localStorage log have no source */
+  source?: ActivitySource
+  /** criteria_identified for chat runs, the request settings for periodic runs */
+  criteria?: CriteriaIdentified | Record<string, unknown>
+  deletedIds?: string[]
+  errors?: string[]
+  /** Agent result exactly as returned */
+  response?: unknown
+  /** Latest attempt to move the deleted messages back out of Trash */
+  restore?: {
+    timestamp: string
+    results: RestoreResult[]
+  }
+  /** Mailbox the run acted on; entries from before accounts existed have none */
+  accountId?: string
+}
+
+/**
+ * A Gmail mailbox managed from this browser
+ */
+export interface GmailAccount {
+  id: string
+  label: string
+  /** Address of the mailbox, empty when not known */
+  email: string
+  createdAt: string
+}
+
+export type CleanupFrequency = 'daily' | 'weekly' | 'disabled'
+
+/**
+ * Protected senders; entries are stored lowercase
+ */
+export interface Safelist {
+  addresses: string[]
+  domains: string[]
+  keywords: string[]
+}
+
+export type RuleConditionType =
+  | 'sender'
+  | 'domain'
+  | 'category'
+  | 'label'
+  | 'older_than_days'
+  | 'keyword'
+  | 'has_attachment'
+  | 'larger_than_mb'
+
+export interface RuleCondition {
+  id: string
+  type: RuleConditionType
+  /** Always stored as text; numeric and boolean types are parsed on send */
+  value: string
+}
+
+export type RuleAction = 'delete' | 'archive' | 'mark_read'
+
+/**
+ * User-defined periodic cleanup rule
+ */
+export interface CleanupRule {
+  id: string
+  /** Sent as the rule name; the agent echoes it back as RuleResult.rule_name */
+  name: string
+  enabled: boolean
+  /** Whether every condition or any one condition must match */
+  match: 'all' | 'any'
+  conditions: RuleCondition[]
+  action: RuleAction
+}
+
+export interface CleanupSettings {
+  promotional: boolean
+  oldEmails: boolean
+  ageThreshold: number
+  scheduleEnabled: boolean
+  frequency: CleanupFrequency
+  scheduleTime: string
+  requireConfirmation: boolean
+  maxEmailsPerRun: number
+  /** User-defined rules, run in order after the built-in toggles */
+  rules: CleanupRule[]
+  /** Mail matching any entry is never deleted */
+  safelist: Safelist
+}
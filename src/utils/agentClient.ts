@@ -0,0 +1,122 @@
+/**
+ * Agent Client
+ *
+ * One place for where agent, upload and RAG requests go and how they are
+ * authenticated. Every Lyzr call in the app goes through the shared
+ * client, so pointing the app at a local stand-in server or a proxy only
+ * takes a different client (or the VITE_LYZR_* variables).
+ *
+ * @example
+ * ```ts
+ * import { createAgentClient, setAgentClient } from '@/utils/agentClient'
+ *
+ * setAgentClient(createAgentClient({
+ *   agentBaseUrl: 'http://localhost:8787/v3',
+ *   ragBaseUrl: 'http://localhost:8787/rag/v3',
+ *   apiKey: () => sessionStorage.getItem('lyzr_key') || '',
+ *   headers: { 'x-proxy-tenant': 'gmail-cleaner' },
+ * }))
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_AGENT_BASE_URL = 'https://agent-prod.studio.lyzr.ai/v3'
+const DEFAULT_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentClientOptions {
+  /** Base of the agent API: chat and asset uploads */
+  agentBaseUrl?: string
+  /** Base of the RAG knowledge base API */
+  ragBaseUrl?: string
+  /** The API key, or a function called for every request */
+  apiKey?: string | (() => string)
+  /** Sent with every request; per-request headers win */
+  headers?: Record<string, string>
+  /** Defaults to the global fetch, looked up on each call so interceptors still apply */
+  fetch?: typeof fetch
+}
+
+export interface AgentClient {
+  readonly agentBaseUrl: string
+  readonly ragBaseUrl: string
+  /** Chat inference endpoint */
+  readonly chatUrl: string
+  /** Chat inference endpoint that streams the reply as server-sent events */
+  readonly streamUrl: string
+  /** Asset upload endpoint */
+  readonly uploadUrl: string
+  getApiKey: () => string
+  hasApiKey: () => boolean
+  /** Full URL of a RAG API path such as `/rag/documents/<id>/` */
+  ragUrl: (path: string) => string
+  /** Whether a URL is a request to this client's agent API */
+  isAgentUrl: (url: string) => boolean
+  /** fetch with the client's headers and API key added */
+  request: (url: string, init?: RequestInit) => Promise<Response>
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+export function createAgentClient(options: AgentClientOptions = {}): AgentClient {
+  const agentBaseUrl = trimTrailingSlash(options.agentBaseUrl || DEFAULT_AGENT_BASE_URL)
+  const ragBaseUrl = trimTrailingSlash(options.ragBaseUrl || DEFAULT_RAG_BASE_URL)
+  const apiKey = options.apiKey ?? ''
+  const fetchImpl: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init))
+
+  const getApiKey = () => (typeof apiKey === 'function' ? apiKey() : apiKey) || ''
+
+  return {
+    agentBaseUrl,
+    ragBaseUrl,
+    chatUrl: `${agentBaseUrl}/inference/chat/`,
+    streamUrl: `${agentBaseUrl}/inference/stream/`,
+    uploadUrl: `${agentBaseUrl}/assets/upload`,
+    getApiKey,
+    hasApiKey: () => getApiKey().trim().length > 0,
+    ragUrl: (path) => `${ragBaseUrl}${path.startsWith('/') ? path : `/${path}`}`,
+    isAgentUrl: (url) => url.startsWith(agentBaseUrl),
+    request: (url, init = {}) => {
+      const headers = new Headers(options.headers)
+      new Headers(init.headers).forEach((value, key) => headers.set(key, value))
+      headers.set('x-api-key', getApiKey())
+      return fetchImpl(url, { ...init, headers })
+    },
+  }
+}
+
+// =============================================================================
+// Shared Client
+// =============================================================================
+
+let sharedClient: AgentClient = createAgentClient({
+  agentBaseUrl: import.meta.env.VITE_LYZR_AGENT_URL,
+  ragBaseUrl: import.meta.env.VITE_LYZR_RAG_URL,
+  apiKey: import.meta.env.VITE_LYZR_API_KEY || '',
+})
+
+/**
+ * The client used by callAIAgent, the upload helpers and the RAG helpers
+ */
+export function getAgentClient(): AgentClient {
+  return sharedClient
+}
+
+/**
+ * Replace the shared client; call before the first request
+ */
+export function setAgentClient(client: AgentClient): void {
+  sharedClient = client
+}
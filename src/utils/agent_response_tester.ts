@@ -314,19 +314,63 @@ export async function testAgentResponse(options: TestAgentOptions): Promise<Test
 // Utility Functions
 // =============================================================================
 
+export interface PingResult {
+  reachable: boolean
+  /** Why the agent is not reachable */
+  error?: string
+  responseTimeMs: number
+}
+
 /**
- * Quick test to verify agent is responding
+ * Ping an agent and report why it is unreachable
+ *
+ * @param timeout - Milliseconds before giving up (default: 10000)
  */
-export async function pingAgent(agentId: string): Promise<boolean> {
+export async function pingAgentWithDetails(agentId: string, timeout: number = 10000): Promise<PingResult> {
+  const startedAt = Date.now()
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
   try {
-    const response = await fetch(`${API_BASE_URL}/api/test-agent/ping/${agentId}`)
+    const response = await fetch(`${API_BASE_URL}/api/test-agent/ping/${agentId}`, {
+      signal: controller.signal,
+    })
+    const responseTimeMs = Date.now() - startedAt
+
+    if (!response.ok) {
+      return { reachable: false, error: `Ping returned status ${response.status}`, responseTimeMs }
+    }
+
     const data = await response.json()
-    return data.success && data.reachable
-  } catch {
-    return false
+    if (data.success && data.reachable) {
+      return { reachable: true, responseTimeMs }
+    }
+    return {
+      reachable: false,
+      error: data.error || data.message || 'Agent did not respond',
+      responseTimeMs,
+    }
+  } catch (err) {
+    return {
+      reachable: false,
+      error: controller.signal.aborted
+        ? `No response within ${Math.round(timeout / 1000)}s`
+        : err instanceof Error ? err.message : String(err),
+      responseTimeMs: Date.now() - startedAt,
+    }
+  } finally {
+    clearTimeout(timeoutId)
   }
 }
 
+/**
+ * Quick test to verify agent is responding
+ */
+export async function pingAgent(agentId: string): Promise<boolean> {
+  const result = await pingAgentWithDetails(agentId)
+  return result.reachable
+}
+
 /**
  * Get response schema summary for an agent
  */
@@ -32,14 +32,33 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { getAgentClient } from '@/utils/agentClient'
+import { sleep } from '@/utils'
+import {
+  getBackoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  type RequestAttempt,
+  type RetryPolicy,
+} from '@/lib/retry-policy'
+import {
+  describeIssues,
+  validateResponse,
+  type ResponseSchema,
+  type ValidationIssue,
+} from '@/lib/response-schema'
+import { parseSSEStream } from '@/lib/event-parser'
+import { splitSSEBuffer } from '@/lib/agent-stream'
+import type { ChatCompletedEvent, ChatFailedEvent, ChatProgressEvent, SSEEvent } from '@/types'
 import React from 'react'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+/** Default limit for each attempt; inference on a large mailbox can be slow */
+export const DEFAULT_AGENT_TIMEOUT_MS = 90 * 1000
 
 // =============================================================================
 // Types - UI can rely on these!
@@ -64,12 +83,72 @@ export interface NormalizedAgentResponse {
   }
 }
 
+/**
+ * How a call ended. `cancelled` means the caller aborted it; `timeout`
+ * means the last attempt got no answer in time.
+ */
+export type AgentCallOutcome = 'success' | 'error' | 'timeout' | 'cancelled'
+
+/**
+ * How callAIAgent got its answer
+ */
+export interface AgentRequestMetadata {
+  /** Every attempt made, in order */
+  attempts: RequestAttempt[]
+  /** False for requests marked unsafe to repeat, which are tried once */
+  retryable: boolean
+}
+
+/**
+ * Why a result didn't match the schema it was checked against
+ */
+export interface ResponseValidationError {
+  /** Name of the schema */
+  schema: string
+  issues: ValidationIssue[]
+}
+
+/**
+ * Options for callAIAgent and useAIAgent
+ */
+export interface CallAIAgentOptions<T = Record<string, any>> {
+  user_id?: string
+  session_id?: string
+  /** Identifies the mailbox when the app manages more than one */
+  account_id?: string
+  /** Asset IDs from uploadFiles */
+  assets?: string[]
+  /** Set to false for requests that must not run twice, such as deletions */
+  retryable?: boolean
+  /** Overrides parts of DEFAULT_RETRY_POLICY, e.g. `{ maxAttempts: 5 }` */
+  retry?: Partial<RetryPolicy>
+  /** Aborting ends the call with the `cancelled` outcome */
+  signal?: AbortSignal
+  /** Limit for each attempt, DEFAULT_AGENT_TIMEOUT_MS by default; 0 waits forever */
+  timeoutMs?: number
+  /** Checks the parsed result, whatever its status; see `data` and `validation` on the response */
+  schema?: ResponseSchema<T>
+}
+
+/**
+ * Options for streamAIAgent. timeoutMs limits the wait for the next piece
+ * of the stream rather than the whole reply.
+ */
+export interface StreamAIAgentOptions<T = Record<string, any>> extends CallAIAgentOptions<T> {
+  /** Reply text received so far, and the piece just added */
+  onText?: (text: string, delta: string) => void
+  /** Every event in the stream, including tool_use and tool_result */
+  onEvent?: (event: SSEEvent) => void
+}
+
 /**
  * Full response from callAIAgent
  */
-export interface AIAgentResponse {
+export interface AIAgentResponse<T = Record<string, any>> {
   /** Whether the API call succeeded */
   success: boolean
+  /** How the call ended; tells a cancelled or timed out call from other errors */
+  outcome: AgentCallOutcome
   /** Normalized agent response - ALWAYS has status and result */
   response: NormalizedAgentResponse
   /** Agent ID used */
@@ -86,13 +165,19 @@ export interface AIAgentResponse {
   error?: string
   /** Additional error details */
   details?: string
+  /** Attempts made for this call */
+  metadata?: AgentRequestMetadata
+  /** The result, when options.schema was given, it matched and the status is `success` */
+  data?: T
+  /** Set when the result didn't match options.schema; success is then false */
+  validation?: ResponseValidationError
 }
 
 // =============================================================================
 // Helpers
 // =============================================================================
 
-function generateUUID(): string {
+export function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
     const r = Math.random() * 16 | 0
     const v = c === 'x' ? r : (r & 0x3 | 0x8)
@@ -100,6 +185,21 @@ function generateUUID(): string {
   })
 }
 
+/**
+ * Create a user_id in the format callAIAgent generates by default
+ */
+export function createUserId(): string {
+  return `user-${generateUUID()}`
+}
+
+/**
+ * Create a session_id in the format callAIAgent generates by default.
+ * Reuse it across calls to keep a multi-turn conversation.
+ */
+export function createSessionId(agent_id: string): string {
+  return `${agent_id}-${generateUUID().substring(0, 12)}`
+}
+
 /**
  * Normalize any parsed response to the standard structure.
  * Handles various response formats and ensures consistent output.
@@ -195,7 +295,7 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required)
- * @param options - Optional user_id, session_id, and assets (file attachments)
+ * @param options - Optional user_id, session_id, account_id, assets (file attachments), retry settings and a result schema
  * @returns Promise with normalized AI agent response
  *
  * @example
@@ -209,26 +309,177 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *   assets: uploadResult.asset_ids
  * })
  *
+ * // 429s, 5xx and network errors are retried with backoff; requests that
+ * // must not run twice opt out
+ * const result = await callAIAgent('Delete these emails: ...', 'your-agent-id', {
+ *   retryable: false
+ * })
+ * result.metadata?.attempts  // [{ attempt: 1, status: 200, ... }]
+ *
+ * // Check the result against a schema to get it typed
+ * const result = await callAIAgent('Find newsletters', 'your-agent-id', {
+ *   schema: DYNAMIC_CLEANER_BOT_SCHEMA
+ * })
+ * result.data?.criteria_identified  // typed, set only when the result matched
+ * result.validation?.issues         // [{ path: 'criteria_identified', expected: 'object', received: 'missing' }]
+ *
  * if (result.success) {
  *   console.log(result.response.status)  // "success"
  *   console.log(result.response.result)  // { ...agent's data }
  * }
  * ```
  */
-export async function callAIAgent(
+export async function callAIAgent<T = Record<string, any>>(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
-): Promise<AIAgentResponse> {
-  const user_id = options?.user_id || `user-${generateUUID()}`
-  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  options?: CallAIAgentOptions<T>
+): Promise<AIAgentResponse<T>> {
+  return sendChat(getAgentClient().chatUrl, buildChatPayload(message, agent_id, options), options)
+}
+
+/**
+ * Reads the body of a successful reply. restartTimer() gives the attempt
+ * its full time again, for bodies that keep arriving.
+ */
+type ReplyReader = (response: Response, restartTimer: () => void) => Promise<string>
+
+const readText: ReplyReader = response => response.text()
+
+/**
+ * POST a chat payload with timeouts and retries, and normalize the reply.
+ * canRetry() can rule out further attempts, e.g. once a stream has
+ * delivered something.
+ */
+async function sendChat<T>(
+  url: string,
+  payload: ReturnType<typeof buildChatPayload>,
+  options: CallAIAgentOptions<T> | undefined,
+  readReply: ReplyReader = readText,
+  canRetry: () => boolean = () => true
+): Promise<AIAgentResponse<T>> {
+  const { agent_id, user_id, session_id } = payload
+
+  const policy = resolveRetryPolicy(options?.retry)
+  const retryable = options?.retryable !== false
+  const maxAttempts = retryable ? policy.maxAttempts : 1
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_AGENT_TIMEOUT_MS
+  const signal = options?.signal
+  const metadata: AgentRequestMetadata = { attempts: [], retryable }
+
+  const cancelled = () => cancelledResponse<T>(metadata)
+
+  let reply: ChatReply | null = null
+  let networkError: unknown = null
+  let timedOut = false
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (signal?.aborted) return cancelled()
+
+    const startedAt = Date.now()
+    const attemptSignal = createAttemptSignal(signal, timeoutMs)
+    reply = null
+    networkError = null
+
+    try {
+      reply = await postChat(url, payload, attemptSignal, readReply)
+    } catch (error) {
+      networkError = error
+    } finally {
+      attemptSignal.clear()
+    }
+    timedOut = !reply && attemptSignal.timedOut
+
+    const status = reply ? reply.status : null
+    const record: RequestAttempt = {
+      attempt,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      status,
+      retryDelayMs: null,
+    }
+    if (signal?.aborted && !reply) {
+      record.error = 'Cancelled'
+    } else if (timedOut) {
+      record.error = `Timed out after ${formatSeconds(timeoutMs)}s`
+    } else if (networkError) {
+      record.error = networkError instanceof Error ? networkError.message : 'Network error'
+    } else if (reply && !reply.ok) {
+      record.error = `API returned status ${reply.status}`
+    }
+    metadata.attempts.push(record)
+
+    if (signal?.aborted && !reply) return cancelled()
+    if (reply?.ok || attempt === maxAttempts || !isRetryableStatus(status) || !canRetry()) break
+
+    // The server's Retry-After wins over backoff, unless it asks for too long a wait
+    if (reply?.retryAfterMs != null) {
+      if (reply.retryAfterMs > policy.maxRetryAfterMs) break
+      record.retryDelayMs = reply.retryAfterMs
+      record.retryAfter = true
+    } else {
+      record.retryDelayMs = getBackoffDelay(attempt, policy)
+    }
+    await waitForRetry(record.retryDelayMs, signal)
+  }
+
+  const attemptsNote = metadata.attempts.length > 1 ? ` (after ${metadata.attempts.length} attempts)` : ''
 
-  // Build request payload
-  const payload: Record<string, any> = {
+  if (!reply) {
+    const errorMsg = (timedOut
+      ? `The agent did not respond within ${formatSeconds(timeoutMs)} seconds`
+      : networkError instanceof Error ? networkError.message : 'Network error') + attemptsNote
+    return {
+      success: false,
+      outcome: timedOut ? 'timeout' : 'error',
+      response: {
+        status: 'error',
+        result: {},
+        message: errorMsg
+      },
+      error: errorMsg,
+      details: networkError instanceof Error ? networkError.stack : String(networkError),
+      metadata,
+    }
+  }
+
+  const rawText = reply.rawText
+
+  if (reply.ok) {
+    const result = parseAgentReply<T>(rawText, { agent_id, user_id, session_id, metadata })
+    return options?.schema ? checkSchema(result, options.schema) : result
+  }
+
+  // API error
+  const errorMsg = getApiErrorMessage(reply.status, rawText) + attemptsNote
+
+  return {
+    success: false,
+    outcome: 'error',
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    raw_response: rawText,
+    metadata,
+  }
+}
+
+/**
+ * Request body for the chat and stream endpoints
+ */
+function buildChatPayload(message: string, agent_id: string, options?: CallAIAgentOptions) {
+  const payload: Record<string, any> & { user_id: string; session_id: string } = {
     message,
     agent_id,
-    user_id,
-    session_id,
+    user_id: options?.user_id || createUserId(),
+    session_id: options?.session_id || createSessionId(agent_id),
+  }
+
+  // Identify the mailbox when the app manages more than one
+  if (options?.account_id) {
+    payload.account_id = options.account_id
   }
 
   // Add assets if provided (file attachments from uploadFiles)
@@ -236,80 +487,329 @@ export async function callAIAgent(
     payload.assets = options.assets
   }
 
-  try {
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
+  return payload
+}
+
+/**
+ * Parse and normalize the text of a successful reply
+ */
+function parseAgentReply<T>(
+  rawText: string,
+  context: { agent_id: string; user_id: string; session_id: string; metadata: AgentRequestMetadata }
+): AIAgentResponse<T> {
+  // Parse with bulletproof JSON parser
+  const parsed = parseLLMJson(rawText)
+
+  // Check for parser error
+  if (parsed?.success === false && parsed?.error) {
+    return {
+      success: false,
+      outcome: 'error',
+      response: {
+        status: 'error',
+        result: {},
+        message: parsed.error
       },
-      body: JSON.stringify(payload),
-    })
+      error: parsed.error,
+      raw_response: rawText,
+      metadata: context.metadata,
+    }
+  }
 
-    const rawText = await response.text()
+  // Normalize to guaranteed structure
+  const normalized = normalizeResponse(parsed)
 
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check for parser error
-      if (parsed?.success === false && parsed?.error) {
-        return {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error
-          },
-          error: parsed.error,
-          raw_response: rawText,
-        }
-      }
+  return {
+    success: true,
+    outcome: 'success',
+    response: normalized,
+    agent_id: context.agent_id,
+    user_id: context.user_id,
+    session_id: context.session_id,
+    timestamp: new Date().toISOString(),
+    raw_response: rawText,
+    metadata: context.metadata,
+  }
+}
 
-      // Normalize to guaranteed structure
-      const normalized = normalizeResponse(parsed)
+/**
+ * Validate a parsed reply against a schema. Only a valid reply with status
+ * `success` gets `data`; replies of any status that don't match fail with
+ * `validation` set, so a result passed on with `success` always matches.
+ * A mismatch keeps the normalized response, so callers can still show the
+ * agent's message.
+ */
+function checkSchema<T>(result: AIAgentResponse<T>, schema: ResponseSchema<T>): AIAgentResponse<T> {
+  if (!result.success) return result
 
-      return {
-        success: true,
-        response: normalized,
-        agent_id,
-        user_id,
-        session_id,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
+  const succeeded = result.response.status === 'success'
+  const validation = validateResponse(schema, result.response.result)
+  if (validation.valid) {
+    return succeeded ? { ...result, data: validation.data } : result
+  }
+
+  // An error reply's own message says more than its missing fields
+  const agentMessage = result.response.message || result.response.result?.message
+  const errorMsg = !succeeded && typeof agentMessage === 'string' && agentMessage
+    ? agentMessage
+    : `The agent's reply didn't have the expected fields: ${describeIssues(validation.issues)}`
+  return {
+    ...result,
+    success: false,
+    outcome: 'error',
+    error: errorMsg,
+    validation: { schema: schema.name, issues: validation.issues },
+  }
+}
+
+function getApiErrorMessage(status: number, rawText: string): string {
+  let errorMsg = status === 429
+    ? 'The agent is handling too many requests. Please try again shortly.'
+    : `API returned status ${status}`
+  try {
+    const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
+    errorMsg = errorData?.error || errorData?.message || errorMsg
+  } catch {}
+  return errorMsg
+}
+
+function cancelledResponse<T>(metadata: AgentRequestMetadata): AIAgentResponse<T> {
+  return {
+    success: false,
+    outcome: 'cancelled',
+    response: {
+      status: 'error',
+      result: {},
+      message: 'Request cancelled'
+    },
+    error: 'Request cancelled',
+    metadata,
+  }
+}
+
+interface ChatReply {
+  ok: boolean
+  status: number
+  rawText: string
+  retryAfterMs: number | null
+}
+
+/**
+ * One POST to a chat endpoint; throws on network errors and aborts
+ */
+async function postChat(
+  url: string,
+  payload: Record<string, any>,
+  attemptSignal: AttemptSignal,
+  readReply: ReplyReader
+): Promise<ChatReply> {
+  const response = await getAgentClient().request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+    signal: attemptSignal.signal,
+  })
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    rawText: response.ok ? await readReply(response, attemptSignal.restart) : await response.text(),
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  }
+}
+
+type AttemptSignal = ReturnType<typeof createAttemptSignal>
+
+/**
+ * Signal for one attempt: aborts when the caller's signal does or when
+ * the attempt runs out of time. restart() gives it the full time again.
+ */
+function createAttemptSignal(signal: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController()
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const abort = () => controller.abort()
+  signal?.addEventListener('abort', abort, { once: true })
+
+  const restart = () => {
+    if (timer) clearTimeout(timer)
+    if (timeoutMs <= 0) return
+    timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+  }
+  restart()
+
+  return {
+    signal: controller.signal,
+    get timedOut() {
+      return timedOut
+    },
+    restart,
+    clear: () => {
+      if (timer) clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+    },
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return ms < 1000 ? (ms / 1000).toFixed(1) : String(Math.round(ms / 1000))
+}
+
+/**
+ * Wait between attempts, ending early if the call is cancelled
+ */
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return sleep(ms)
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal.addEventListener('abort', done, { once: true })
+  })
+}
+
+// =============================================================================
+// Streaming API
+// =============================================================================
+
+/**
+ * Call the AI Agent and receive its reply as it is generated. Resolves to
+ * the same normalized response as callAIAgent once the stream ends.
+ *
+ * Failures before anything arrives are retried like callAIAgent; once the
+ * stream has delivered an event the call is never repeated. Servers that
+ * don't stream are read as a single reply. A stream that ends without any
+ * reply text is asked again with callAIAgent only when nothing arrived and
+ * the call is retryable; otherwise the result is an error.
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent('Find newsletters', 'your-agent-id', {
+ *   onText: (text) => setDraft(text),
+ *   onEvent: (event) => {
+ *     if (event.type === 'tool_use') console.log('Running', (event as ToolUseEvent).tool_name)
+ *   },
+ * })
+ * ```
+ */
+export async function streamAIAgent<T = Record<string, any>>(
+  message: string,
+  agent_id: string,
+  options: StreamAIAgentOptions<T> = {}
+): Promise<AIAgentResponse<T>> {
+  const state: StreamState = { received: false, empty: false }
+  const result = await sendChat(
+    getAgentClient().streamUrl,
+    buildChatPayload(message, agent_id, options),
+    options,
+    (response, restartTimer) => readAgentStream(response, restartTimer, options, state),
+    () => !state.received
+  )
+  if (!state.empty || result.outcome === 'cancelled') return result
+
+  // Events such as tool calls mean the agent may already have acted
+  if (!state.received && options.retryable !== false) {
+    return callAIAgent(message, agent_id, options)
+  }
+  const errorMsg = 'The agent\'s reply was empty'
+  return {
+    success: false,
+    outcome: 'error',
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    metadata: result.metadata,
+  }
+}
+
+interface StreamState {
+  /** Set once any event arrives; the call is no longer retried */
+  received: boolean
+  /** Set when the stream ended without any reply text */
+  empty: boolean
+}
+
+/**
+ * Read an SSE reply chunk by chunk, reporting text and events as they
+ * arrive. Returns the full reply text.
+ */
+async function readAgentStream(
+  response: Response,
+  restartTimer: () => void,
+  options: StreamAIAgentOptions<unknown>,
+  state: StreamState
+): Promise<string> {
+  state.empty = false
+  if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return response.text()
+  }
+
+  let text = ''
+  let completed: string | null = null
+
+  const appendText = (delta: unknown) => {
+    if (typeof delta !== 'string' || !delta) return
+    text += delta
+    options.onText?.(text, delta)
+  }
+
+  const handleEvents = (chunk: string) => {
+    for (const parsed of parseSSEStream(chunk)) {
+      if (!parsed.success || !parsed.event) {
+        // Data that isn't JSON is reply text; a malformed JSON event is
+        // skipped, and the final reply is still parsed whole
+        const raw = parsed.raw?.trimStart()
+        if (raw && !raw.startsWith('{') && !raw.startsWith('[')) {
+          state.received = true
+          appendText(parsed.raw)
+        }
+        continue
       }
-    } else {
-      // API error
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
+      const event = parsed.event
+      state.received = true
+      options.onEvent?.(event)
 
-      return {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg
-        },
-        error: errorMsg,
-        raw_response: rawText,
+      if (event.type === 'chat_progress' || event.type === 'message') {
+        appendText((event as ChatProgressEvent).content)
+      } else if (event.type === 'chat_completed') {
+        const full = (event as ChatCompletedEvent).response
+        if (full != null) completed = typeof full === 'string' ? full : JSON.stringify(full)
+      } else if (event.type === 'chat_failed') {
+        throw new Error((event as ChatFailedEvent).error || 'The agent run failed')
       }
     }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Network error'
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: errorMsg
-      },
-      error: errorMsg,
-      details: error instanceof Error ? error.stack : String(error),
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      restartTimer()
+      const { complete, rest } = splitSSEBuffer(buffer + decoder.decode(value, { stream: true }))
+      buffer = rest
+      if (complete) handleEvents(complete)
     }
+    handleEvents(buffer + decoder.decode())
+  } finally {
+    reader.cancel().catch(() => undefined)
   }
+
+  if (completed == null && !text) state.empty = true
+  return completed ?? text
 }
 
 // =============================================================================
@@ -322,7 +822,7 @@ export async function callAIAgent(
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { callAgent, loading, error, response } = useAIAgent()
+ *   const { callAgent, cancel, loading, error, response } = useAIAgent()
  *
  *   const handleClick = async () => {
  *     await callAgent('Hello', 'agent-id')
@@ -348,19 +848,40 @@ export function useAIAgent() {
   const [loading, setLoading] = React.useState(false)
   const [error, setError] = React.useState<string | null>(null)
   const [response, setResponse] = React.useState<NormalizedAgentResponse | null>(null)
+  const controllerRef = React.useRef<AbortController | null>(null)
 
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: CallAIAgentOptions
   ) => {
+    // A signal that is already aborted never starts a request
+    const signal = options?.signal
+    if (signal?.aborted) {
+      return cancelledResponse({ attempts: [], retryable: options?.retryable !== false })
+    }
+
     setLoading(true)
     setError(null)
     setResponse(null)
 
-    const result = await callAIAgent(message, agent_id, options)
+    // cancel() aborts this call; so does the caller's own signal
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const forwardAbort = () => controller.abort()
+    signal?.addEventListener('abort', forwardAbort, { once: true })
 
-    if (result.success) {
+    let result: AIAgentResponse
+    try {
+      result = await callAIAgent(message, agent_id, { ...options, signal: controller.signal })
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort)
+      if (controllerRef.current === controller) controllerRef.current = null
+    }
+
+    if (result.outcome === 'cancelled') {
+      // Not an error: the caller asked for it
+    } else if (result.success) {
       setResponse(result.response)
     } else {
       setError(result.error || 'Unknown error')
@@ -371,8 +892,13 @@ export function useAIAgent() {
     return result
   }
 
+  const cancel = () => {
+    controllerRef.current?.abort()
+  }
+
   return {
     callAgent,
+    cancel,
     loading,
     error,
     response,
@@ -383,6 +909,14 @@ export function useAIAgent() {
 // Utility Functions
 // =============================================================================
 
+/**
+ * Whether the shared agent client has an API key; every agent call
+ * fails without it
+ */
+export function isApiKeyConfigured(): boolean {
+  return getAgentClient().hasApiKey()
+}
+
 /**
  * Extract text from agent response (handles various formats)
  */
@@ -439,8 +973,6 @@ export async function generateDocs(code: string, agent_id: string): Promise<stri
 // File Upload API
 // =============================================================================
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-
 /**
  * Upload result for a single file
  */
@@ -516,7 +1048,8 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
     }
   }
 
-  if (!LYZR_API_KEY) {
+  const client = getAgentClient()
+  if (!client.hasApiKey()) {
     return {
       success: false,
       asset_ids: [],
@@ -536,12 +1069,9 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
       formData.append('files', file, file.name)
     }
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
+    // Don't set Content-Type - let fetch set it with boundary for multipart
+    const response = await client.request(client.uploadUrl, {
       method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-        // Don't set Content-Type - let fetch set it with boundary for multipart
-      },
       body: formData,
     })
 
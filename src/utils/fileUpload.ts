@@ -18,12 +18,7 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
-
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
-// API Key from environment variable
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+import { getAgentClient } from '@/utils/agentClient'
 
 export interface UploadedAsset {
   success: boolean
@@ -155,11 +150,11 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
 
   // Call Lyzr Agent API directly with assets
   try {
-    const response = await fetch(LYZR_API_URL, {
+    const client = getAgentClient()
+    const response = await client.request(client.chatUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify({
         message,
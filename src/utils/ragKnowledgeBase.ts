@@ -24,14 +24,12 @@
  */
 
 import { useState } from 'react'
+import { getAgentClient } from '@/utils/agentClient'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
-
 // Supported file types with their parsers
 const FILE_TYPE_CONFIG: Record<string, { type: 'pdf' | 'docx' | 'txt'; parser: string }> = {
   'application/pdf': { type: 'pdf', parser: 'pypdf' },
@@ -169,15 +167,15 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
+    const client = getAgentClient()
+    if (!client.hasApiKey()) {
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${ragId}/`, {
+    const response = await client.request(client.ragUrl(`/rag/documents/${ragId}/`), {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
     })
 
@@ -263,7 +261,8 @@ export async function uploadAndTrainDocument(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
+    const client = getAgentClient()
+    if (!client.hasApiKey()) {
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
@@ -290,13 +289,10 @@ export async function uploadAndTrainDocument(
       parseFormData.append('chunk_overlap', '100')
     }
 
-    const parseUrl = `${LYZR_RAG_BASE_URL}/parse/${fileConfig.type}/`
+    const parseUrl = client.ragUrl(`/parse/${fileConfig.type}/`)
 
-    const parseResponse = await fetch(parseUrl, {
+    const parseResponse = await client.request(parseUrl, {
       method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
       body: parseFormData,
     })
 
@@ -319,14 +315,13 @@ export async function uploadAndTrainDocument(
     }
 
     // STEP 2: Train knowledge base with parsed documents
-    const trainUrl = `${LYZR_RAG_BASE_URL}/rag/train/${ragId}/`
+    const trainUrl = client.ragUrl(`/rag/train/${ragId}/`)
 
-    const trainResponse = await fetch(trainUrl, {
+    const trainResponse = await client.request(trainUrl, {
       method: 'POST',
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(parseResult.documents),
     })
@@ -383,7 +378,8 @@ export async function deleteDocuments(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
+    const client = getAgentClient()
+    if (!client.hasApiKey()) {
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
@@ -399,14 +395,13 @@ export async function deleteDocuments(
       return `storage/${doc}`
     })
 
-    const deleteUrl = `${LYZR_RAG_BASE_URL}/rag/${ragId}/docs/`
+    const deleteUrl = client.ragUrl(`/rag/${ragId}/docs/`)
 
-    const response = await fetch(deleteUrl, {
+    const response = await client.request(deleteUrl, {
       method: 'DELETE',
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(formattedDocuments),
     })
@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_AGENT_ID?: string
   readonly VITE_LYZR_API_KEY?: string
+  /** Overrides the agent API base, e.g. a local stand-in server or proxy */
+  readonly VITE_LYZR_AGENT_URL?: string
+  /** Overrides the RAG API base */
+  readonly VITE_LYZR_RAG_URL?: string
   readonly VITE_API_URL?: string
 }
 